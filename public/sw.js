@@ -0,0 +1,169 @@
+/* ====== Service worker: app shell + GIF precache, offline, Background Sync ======
+   - BUILD ถูกแทนตอน build (vite.config.ts): version = hash ของ bundle, files = ไฟล์ทั้งหมดใน dist
+     deploy ใหม่ → sw.js เปลี่ยน → ติดตั้งใหม่ลง cache ชื่อใหม่ แล้วลบ cache เก่าตอน activate
+   - navigation: network-first → ออฟไลน์ใช้ index.html ที่ cache ไว้
+     host ตอบ 404 กับ URL ของแอป (/play/…, /u/@ig) → ใช้ index.html เหมือนกัน (SPA fallback)
+   - /assets/* (ชื่อมี hash): cache-first
+   - sync "flush-outbox": ส่ง event ที่หน้าเว็บฝากไว้ใน IndexedDB (ดู src/pwa/backgroundSync.ts)
+   - periodicsync "hunger-reminders": เตือนแฮมสเตอร์หิวตอนปิดแท็บไปแล้ว (ดู src/reminders)
+*/
+const BUILD = { version: "dev", files: [] };
+const CACHE = `hamham-${BUILD.version}`;
+const SHELL = ["/", "/index.html", "/manifest.webmanifest", "/icons/icon-192.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE);
+      // dev server ไม่ได้แทน BUILD → cache แค่ shell
+      await cache.addAll([...new Set([...SHELL, ...BUILD.files])]);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  const url = new URL(req.url);
+  if (req.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (req.mode === "navigate") {
+    event.respondWith(
+      (async () => {
+        try {
+          const res = await fetch(req);
+          if (res.status !== 404) return res;
+          return (await caches.match("/index.html")) || res;
+        } catch {
+          return (await caches.match("/index.html")) || Response.error();
+        }
+      })()
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith("/assets/") || url.pathname.startsWith("/icons/")) {
+    event.respondWith(
+      (async () => {
+        const hit = await caches.match(req);
+        if (hit) return hit;
+        const res = await fetch(req);
+        if (res.ok) (await caches.open(CACHE)).put(req, res.clone());
+        return res;
+      })()
+    );
+  }
+});
+
+/* ====== Background Sync ====== */
+const DB_NAME = "hamham-sync";
+const STORE = "outbox";
+
+const openDb = () =>
+  new Promise((resolve, reject) => {
+    const r = indexedDB.open(DB_NAME, 1);
+    r.onupgradeneeded = () => r.result.createObjectStore(STORE);
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+
+const idb = async (mode, fn) => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const result = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(result && "result" in result ? result.result : undefined);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+async function flushOutbox() {
+  /** @type {{ target: { url: string, mode: RequestMode }, events: Array<Record<string, unknown>> } | undefined} */
+  const snap = await idb("readonly", (s) => s.get("pending"));
+  if (!snap || !snap.events.length) return;
+
+  const sent = [];
+  for (const e of snap.events) {
+    try {
+      const res = await fetch(snap.target.url, {
+        method: "POST",
+        mode: snap.target.mode,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...e, ua: self.navigator.userAgent }),
+      });
+      // 4xx/5xx → หยุดไว้ให้หน้าเว็บตัดสิน (outbox ย้าย 4xx ไป dead letter เอง)
+      if (res.type !== "opaque" && !res.ok) break;
+      sent.push(e.id);
+    } catch {
+      break; // ยังออฟไลน์ → ให้ browser retry sync เอง
+    }
+  }
+
+  const left = snap.events.filter((e) => !sent.includes(e.id));
+  await idb("readwrite", (s) => s.put({ ...snap, events: left }, "pending"));
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  for (const c of clients) c.postMessage({ type: "outbox-sent", ids: sent });
+  if (left.length) throw new Error("outbox not empty"); // ให้ sync ลองใหม่
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === "flush-outbox") event.waitUntil(flushOutbox());
+});
+
+/* ====== เตือนแฮมสเตอร์หิว (Periodic Background Sync) ======
+   หน้าเว็บฝากรายการเตือนที่ยังไม่ถึงเวลาไว้ใน IndexedDB key "reminders"
+   browser ปลุกเป็นระยะ (ไม่ตรงเวลาเป๊ะ) → เตือนอันที่ถึงเวลาแล้ว ไม่อยู่ในช่วงเงียบ
+*/
+const inQuietHours = (ts, n) => {
+  if (n.quietStart === n.quietEnd) return false;
+  const h = new Date(ts).getHours();
+  return n.quietStart < n.quietEnd
+    ? h >= n.quietStart && h < n.quietEnd
+    : h >= n.quietStart || h < n.quietEnd;
+};
+
+async function showDueReminders() {
+  /** @type {Array<{ tag: string, title: string, body: string, at: number, quietStart: number, quietEnd: number }> | undefined} */
+  const notices = await idb("readonly", (s) => s.get("reminders"));
+  if (!notices || !notices.length) return;
+
+  const now = Date.now();
+  const due = notices.filter((n) => n.at <= now && !inQuietHours(now, n));
+  for (const n of due) {
+    await self.registration.showNotification(n.title, {
+      body: n.body,
+      tag: n.tag,
+      icon: "/icons/icon-192.png",
+      data: { url: "/" },
+    });
+  }
+  const left = notices.filter((n) => !due.includes(n));
+  await idb("readwrite", (s) => s.put(left, "reminders"));
+}
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === "hunger-reminders") event.waitUntil(showDueReminders());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || "/";
+  event.waitUntil(
+    (async () => {
+      const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      const open = clients.find((c) => "focus" in c);
+      if (open) return open.focus();
+      return self.clients.openWindow(url);
+    })()
+  );
+});
@@ -0,0 +1,513 @@
+#!/usr/bin/env node
+/* ====== Local stand-in for the leaderboard backend ======
+   ใช้กับ VITE_LEADERBOARD_BACKEND=rest, VITE_LEADERBOARD_URL=http://localhost:8787
+   - POST /events                         (ตัดซ้ำด้วย id) start → { ok, session: { id, key } }
+   - GET  /leaderboard?limit=N&from&to
+   - GET  /players/:ig/total
+   - GET  /players/:ig/achievements
+   - GET  /players/:ig/claim?device=ID    { claimed, mine }
+   - GET  /players/:ig                    หน้าผู้เล่น + คนที่มาเยี่ยม (ดู src/backend/players.ts)
+   - GET  /teams?limit=N&from&to          อันดับทีม
+   - GET  /teams/:code?from&to            ทีม + สมาชิก (ดู src/backend/teams.ts)
+   - GET  /stream?limit=N&from&to&ig      Server-Sent Events: board / delta / me
+   - GET  /analytics?from&to              event analytics ดิบ (หน้า /stats)
+   ตรวจ event ตามกติกาใน src/anticheat/rules.ts — ไม่ผ่าน = เก็บไว้แต่ติด flagged (ไม่นับ)
+   - start: server สุ่ม session id + key ตอบกลับไป, event ถัดไปต้องเซ็นด้วย key นั้น
+     nonce ต้องเพิ่มขึ้น, feed ไม่เกิน 30 ครั้ง/นาที ต่อ IG และต่อเครื่อง
+   - IG ที่ claim แล้วต้องมี claimSig จาก device key ของเครื่องที่ผูกไว้
+     link: PIN ผิดเกิน 5 ครั้ง/ชม. = ล็อก, PIN เก็บแบบ scrypt + salt
+   flagged ที่ client ส่งมาเองไม่สนใจ
+
+   ตัวคูณคุกกี้ของอีเวนต์ตรวจกับตารางใน --schedule (default public/events.json)
+
+   node server/mock-server.mjs [--port 8787] [--data events.json] [--schedule public/events.json]
+*/
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+const args = process.argv.slice(2);
+const opt = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : fallback;
+};
+const PORT = Number(opt("port", process.env.PORT || 8787));
+const DATA_FILE = opt("data", "");
+const SCHEDULE_FILE = opt("schedule", "public/events.json");
+
+const normalizeIG = (ig = "") => {
+  const clean = String(ig).trim().replace(/^@/, "");
+  return clean ? `@${clean.toLowerCase()}` : "";
+};
+
+/** @type {Array<Record<string, any>>} */
+let events = [];
+if (DATA_FILE && existsSync(DATA_FILE)) {
+  events = JSON.parse(readFileSync(DATA_FILE, "utf8"));
+}
+const ids = new Set(events.map((e) => e.id));
+const persist = () => {
+  if (DATA_FILE) writeFileSync(DATA_FILE, JSON.stringify(events));
+};
+
+/* ====== จอง IG (ตรงกับ checkClaim/checkOwner ใน src/anticheat/rules.ts) ======
+   pinHash จาก client เดาได้ (PIN มีแค่ 10^4–10^6 แบบ) → เก็บเป็น scrypt + salt ต่อ IG
+   ไม่เก็บ pinHash ดิบลงไฟล์ และ PIN ผิดเกิน MAX_PIN_FAILURES ครั้ง/ชม. = ล็อก
+*/
+const MAX_PIN_FAILURES = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
+/** @type {Map<string, { salt: string, pin: string, keys: Map<string, string>, failures: number[] }>} */
+const claims = new Map();
+
+const saltPin = (pinHash, salt) => scryptSync(String(pinHash), salt, 32).toString("hex");
+
+const pinMatches = (c, pinHash) =>
+  !!c.pin &&
+  !!pinHash &&
+  timingSafeEqual(Buffer.from(saltPin(pinHash, c.salt), "hex"), Buffer.from(c.pin, "hex"));
+
+/** ตรงกับ canonicalEvent ใน src/anticheat/sign.ts — ทุก field ที่ server ใช้ต้องอยู่ในนี้ */
+const canonicalEvent = (e) =>
+  JSON.stringify([
+    e.id, e.ts, e.event, e.playerIG || "", e.sessionId || "", e.nonce ?? "",
+    e.deviceId || "", e.hamsterName || "", e.cookies ?? "", e.liveEvent || "",
+    e.recipientIG || "", e.team ?? "", e.teamName || "", e.badge || "", e.ref || "",
+  ]);
+
+/** HMAC-SHA256 ด้วย key hex (ตรงกับ signEvent ใน src/anticheat/sign.ts) */
+const signOf = (key, e) =>
+  createHmac("sha256", Buffer.from(key, "hex")).update(canonicalEvent(e)).digest("hex");
+
+/** คืนเหตุผลที่ไม่ผ่าน หรือ undefined = ผ่าน */
+function checkClaim(e) {
+  const ig = normalizeIG(e.playerIG);
+  const c = claims.get(ig);
+  const device = e.deviceId || "?";
+  if (e.event === "claim") {
+    if (!e.claimKey) return "bad_signature";
+    if (c) return "claim_taken";
+    const salt = randomBytes(16).toString("hex");
+    const pin = e.pinHash ? saltPin(e.pinHash, salt) : "";
+    claims.set(ig, { salt, pin, keys: new Map([[device, e.claimKey]]), failures: [] });
+    return;
+  }
+  if (e.event === "link") {
+    if (!e.claimKey || !c) return "bad_pin";
+    c.failures = c.failures.filter((t) => e.receivedAt - t < HOUR_MS);
+    if (c.failures.length >= MAX_PIN_FAILURES) return "pin_locked";
+    if (!pinMatches(c, e.pinHash)) {
+      c.failures.push(e.receivedAt);
+      return "bad_pin";
+    }
+    c.keys.set(device, e.claimKey);
+    return;
+  }
+  if (!c) return;
+  const key = c.keys.get(device);
+  if (!key || e.claimSig !== signOf(key, e)) return "not_owner";
+}
+
+/* ====== อีเวนต์ตัวคูณ (ตรงกับ src/events/schedule.ts) ======
+   ตรวจแบบ parseLiveEvent: ตัวที่พัง/ตัวคูณเกินเพดานทิ้ง แล้วเรียงตามเวลาเริ่ม
+   ซ้อนกัน = ใช้ตัวที่เริ่มก่อน เหมือน activeEvent ฝั่ง client
+*/
+const MAX_MULTIPLIER = 10;
+const MAX_BONUS_FEEDS = 10;
+
+const toTime = (v) => (typeof v === "number" ? v : typeof v === "string" ? Date.parse(v) : NaN);
+
+/** จำนวนเต็มในช่วง [min, max] — ไม่ใส่ = fallback, ผิดช่วง = undefined */
+const intIn = (v, min, max, fallback) => {
+  if (v == null) return fallback;
+  const n = Math.round(Number(v));
+  return n >= min && n <= max ? n : undefined;
+};
+
+function parseScheduleEvent(ev) {
+  const o = ev || {};
+  const start = toTime(o.start);
+  const end = toTime(o.end);
+  if (typeof o.id !== "string" || !o.id || !o.name) return;
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) return;
+  const multiplier = intIn(o.multiplier, 1, MAX_MULTIPLIER, 1);
+  const bonus = intIn(o.bonusFeeds, 0, MAX_BONUS_FEEDS, 0);
+  if (multiplier == null || bonus == null) return;
+  return { id: o.id, start, end, cookies: multiplier + bonus };
+}
+
+const schedule = (() => {
+  if (!existsSync(SCHEDULE_FILE)) return [];
+  const raw = JSON.parse(readFileSync(SCHEDULE_FILE, "utf8"));
+  const list = Array.isArray(raw) ? raw : raw?.events;
+  if (!Array.isArray(list)) return [];
+  const out = [];
+  for (const item of list) {
+    const ev = parseScheduleEvent(item);
+    if (ev) out.push(ev);
+    else console.warn("schedule: skipped invalid entry", item);
+  }
+  return out.sort((a, b) => a.start - b.start);
+})();
+
+const cookiesOf = (e) => Math.max(1, Math.floor(Number(e.cookies) || 1));
+
+function checkCookies(e) {
+  if (e.event !== "feed") return;
+  const ev = schedule.find((s) => e.ts >= s.start && e.ts < s.end);
+  const n = Number(e.cookies ?? 1);
+  if (!Number.isInteger(n) || n < 1 || n > (ev?.cookies ?? 1)) return "bad_cookies";
+}
+
+/* ====== Play session (ตรงกับ createEventValidator ใน src/anticheat/rules.ts) ====== */
+const MAX_FEEDS_PER_MINUTE = 30;
+const MINUTE_MS = 60 * 1000;
+
+/** @type {Map<string, { key: string, ig: string, nonce: number }>} */
+const sessions = new Map();
+/** เวลาที่ feed ผ่านไว้ต่อ key (sliding window 1 นาที) — นับตามเวลาที่ server ได้รับ
+ *  ไม่ใช่ e.ts (client เลื่อน/ตั้งเวลาอนาคตเพื่อหลบ rate limit ได้) */
+const hits = new Map();
+
+function tryTake(key, at) {
+  const recent = (hits.get(key) || []).filter((t) => at - t < MINUTE_MS);
+  const ok = recent.length < MAX_FEEDS_PER_MINUTE;
+  if (ok) recent.push(at);
+  hits.set(key, recent);
+  return ok;
+}
+
+/** start = ออก session ใหม่ (เก็บ id/key ไว้ใน event — โหลดไฟล์ใหม่ได้ session เดิม)
+ *  อื่น ๆ ต้องอ้าง session ของ IG เดียวกัน, เซ็นถูก, nonce เพิ่มขึ้น, feed ไม่เกิน rate */
+function checkSession(e) {
+  const ig = normalizeIG(e.playerIG);
+  if (e.event === "claim" || e.event === "link") return;
+  if (e.event === "start") {
+    if (!e.sessionId || !e.sessionKey) {
+      e.sessionId = randomBytes(16).toString("hex");
+      e.sessionKey = randomBytes(32).toString("hex");
+    }
+    sessions.set(e.sessionId, { key: e.sessionKey, ig, nonce: -1 });
+    return;
+  }
+  const s = e.sessionId ? sessions.get(e.sessionId) : undefined;
+  if (!s) return "no_session";
+  if (s.ig !== ig) return "session_mismatch";
+  if (!e.sig || e.sig !== signOf(s.key, e)) return "bad_signature";
+  const nonce = Number(e.nonce);
+  if (e.nonce == null || !Number.isFinite(nonce) || nonce <= s.nonce) return "replayed_nonce";
+  s.nonce = nonce;
+  if (e.event !== "feed") return;
+  const cookies = checkCookies(e);
+  if (cookies) return cookies;
+  const byIG = tryTake(`ig:${s.ig}`, e.receivedAt);
+  const byDevice = tryTake(`dev:${e.deviceId || "?"}`, e.receivedAt);
+  if (!byIG || !byDevice) return "rate_limited";
+}
+
+/** คืนเหตุผลที่ไม่ผ่าน หรือ undefined = ผ่าน — analytics ไม่นับคะแนน ไม่ต้องตรวจ */
+const verdict = (e) =>
+  e.event === "analytics" ? undefined : checkRecipient(e) || checkClaim(e) || checkSession(e);
+
+/** claim/link ที่เก็บไว้ไม่มี pinHash ดิบแล้ว → สร้าง state จากผลตรวจเดิม */
+function replayClaim(e) {
+  const ig = normalizeIG(e.playerIG);
+  const device = e.deviceId || "?";
+  const c = claims.get(ig);
+  if (e.event === "claim" && !e.flagged) {
+    const keys = new Map([[device, e.claimKey]]);
+    claims.set(ig, { salt: e.pinSalt || "", pin: e.pinSalted || "", keys, failures: [] });
+  } else if (e.event === "link" && c) {
+    if (!e.flagged) c.keys.set(device, e.claimKey);
+    else if (e.flagged === "bad_pin") c.failures.push(e.receivedAt);
+  }
+}
+
+// โหลดไฟล์เดิม → สร้าง claim/session/rate ใหม่จาก event ที่เคยผ่าน
+for (const e of events) {
+  e.receivedAt ??= e.ts; // ไฟล์เก่าก่อนมี receivedAt
+  if (e.event === "claim" || e.event === "link") replayClaim(e);
+  else if (!e.flagged) verdict(e);
+}
+
+const inRange = (ts, from, to) =>
+  (from == null || ts >= from) && (to == null || ts < to);
+
+const num = (v) => (v == null || v === "" ? undefined : Number(v));
+
+/** ป้อนให้เพื่อน (recipientIG) → ยอดเข้าเจ้าของแฮมสเตอร์ (ตรงกับ src/backend/players.ts) */
+const creditedIG = (e) => normalizeIG(e.recipientIG || e.playerIG);
+
+/** visit / feed ให้เพื่อน: recipientIG ต้องใช้ได้และไม่ใช่ตัวเอง (ตรงกับ src/anticheat/rules.ts) */
+function checkRecipient(e) {
+  if (e.event !== "visit" && e.recipientIG == null) return;
+  const to = normalizeIG(e.recipientIG);
+  if (!/^@[a-z0-9._]{1,30}$/.test(to) || to === normalizeIG(e.playerIG)) return "bad_recipient";
+}
+
+function board({ from, to } = {}) {
+  const map = new Map();
+  for (const e of events) {
+    if (e.event !== "feed" || e.flagged || !inRange(e.ts, from, to)) continue;
+    const ig = creditedIG(e);
+    if (ig) map.set(ig, (map.get(ig) || 0) + cookiesOf(e));
+  }
+  return Array.from(map, ([ig, count]) => ({ ig, count, claimed: claims.has(ig) })).sort(
+    (a, b) => b.count - a.count
+  );
+}
+
+/* ====== ทีม (ตรงกับ src/backend/teams.ts) ====== */
+const teamCode = (code = "") => String(code).toUpperCase().replace(/[\s-]/g, "");
+
+function teamStats({ from, to } = {}) {
+  const teams = new Map();
+  const current = new Map();
+  const teamOf = (code) => {
+    if (!teams.has(code)) teams.set(code, { name: "", members: new Set(), feeds: new Map() });
+    return teams.get(code);
+  };
+  for (const e of events) {
+    if (e.flagged || e.team == null) continue;
+    const ig = normalizeIG(e.playerIG);
+    const code = teamCode(e.team);
+    if (!ig) continue;
+    if (e.event === "start") {
+      current.set(ig, code);
+      if (code && e.teamName && !teamOf(code).name) teamOf(code).name = String(e.teamName).trim();
+    } else if (e.event === "feed" && code && inRange(e.ts, from, to)) {
+      const feeds = teamOf(code).feeds;
+      feeds.set(ig, (feeds.get(ig) || 0) + cookiesOf(e));
+    }
+  }
+  for (const [ig, code] of current) if (code) teamOf(code).members.add(ig);
+  return teams;
+}
+
+const teamRow = (code, t) => ({
+  code,
+  name: t.name || code,
+  count: [...t.feeds.values()].reduce((a, b) => a + b, 0),
+  size: t.members.size,
+});
+
+/* ====== หน้าผู้เล่น (ตรงกับ src/backend/players.ts) ====== */
+function playerCard(ig) {
+  const card = { ig, hamsterName: "", count: 0, claimed: claims.has(ig), referrals: 0, gifted: 0 };
+  const started = new Set();
+  const visitors = new Map();
+  for (const e of events) {
+    const who = normalizeIG(e.playerIG);
+    if (e.flagged || !who) continue;
+    if (e.event === "start") {
+      if (!started.has(who)) {
+        started.add(who);
+        if (normalizeIG(e.ref) === ig && who !== ig) card.referrals++;
+      }
+      if (who === ig && e.hamsterName) card.hamsterName = String(e.hamsterName);
+    }
+    if ((e.event !== "feed" && e.event !== "visit") || !e.recipientIG) continue;
+    const cookies = e.event === "feed" ? cookiesOf(e) : 0;
+    if (who === ig) card.gifted += cookies;
+    if (normalizeIG(e.recipientIG) === ig) {
+      const v = visitors.get(who) || { ig: who, count: 0, at: 0 };
+      visitors.set(who, { ig: who, count: v.count + cookies, at: Math.max(v.at, e.ts) });
+    }
+  }
+  card.count = countFor(ig);
+  card.visitors = [...visitors.values()].sort((a, b) => b.at - a.at).slice(0, 10);
+  return card;
+}
+
+const countFor = (ig, range) =>
+  board(range).find((r) => r.ig === normalizeIG(ig))?.count || 0;
+
+/* ====== SSE clients ====== */
+/** @type {Set<{ res: import("node:http").ServerResponse, from?: number, to?: number, ig: string }>} */
+const clients = new Set();
+
+const send = (res, event, data) =>
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+function broadcastFeed(e) {
+  const ig = creditedIG(e);
+  for (const c of clients) {
+    if (inRange(e.ts, c.from, c.to)) {
+      send(c.res, "delta", { ig, count: countFor(ig, c) });
+    }
+    if (c.ig === ig) send(c.res, "me", { ig, count: countFor(ig) });
+  }
+}
+
+/* ====== HTTP ====== */
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const json = (res, status, body) => {
+  res.writeHead(status, { ...CORS, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+/** %E0%A4%A แบบขาด ๆ → undefined (decodeURIComponent throw URIError แล้ว process ล่ม) */
+const safeDecode = (s) => {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return undefined;
+  }
+};
+
+const isObject = (v) => !!v && typeof v === "object" && !Array.isArray(v);
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (c) => (raw += c));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(raw || "{}"));
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://${req.headers.host}`);
+  const q = url.searchParams;
+  const range = { from: num(q.get("from")), to: num(q.get("to")) };
+  const player = url.pathname.match(/^\/players\/([^/]+)\/(total|achievements|claim)$/);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS);
+    return res.end();
+  }
+
+  // path decode ไม่ได้ → ทุก segment ก็ decode ไม่ได้ ตอบ 400 ก่อนถึง route
+  if (safeDecode(url.pathname) == null) return json(res, 400, { error: "bad path" });
+
+  if (req.method === "POST" && url.pathname === "/events") {
+    let e;
+    try {
+      e = await readBody(req);
+    } catch {
+      return json(res, 400, { error: "bad json" });
+    }
+    if (!isObject(e)) return json(res, 400, { error: "event must be an object" });
+    if (!e.id || !e.event) return json(res, 400, { error: "id and event required" });
+    const sessionOf = (ev) =>
+      ev.event === "start" && ev.sessionKey ? { id: ev.sessionId, key: ev.sessionKey } : undefined;
+    if (ids.has(e.id)) {
+      // start ซ้ำ (client ส่งใหม่หลัง timeout) → ตอบ session เดิม
+      const seen = events.find((x) => x.id === e.id);
+      return json(res, 200, {
+        ok: true,
+        duplicate: true,
+        session: sessionOf(seen || {}),
+        flagged: seen?.flagged,
+      });
+    }
+    ids.add(e.id);
+    e.ts = Number(e.ts) || Date.now();
+    // field ที่ server เป็นคนตั้ง — ไม่เชื่อค่าที่ client ส่งมา
+    e.receivedAt = Date.now();
+    delete e.flagged;
+    delete e.sessionKey;
+    if (e.event === "start") delete e.sessionId;
+    const reason = verdict(e);
+    if (reason) e.flagged = reason;
+    if (e.event === "claim" || e.event === "link") {
+      delete e.pinHash;
+      const c = e.event === "claim" && !reason && claims.get(normalizeIG(e.playerIG));
+      if (c) Object.assign(e, { pinSalt: c.salt, pinSalted: c.pin });
+    }
+    events.push(e);
+    persist();
+    if (e.event === "feed" && !e.flagged) broadcastFeed(e);
+    return json(res, 200, { ok: true, session: reason ? undefined : sessionOf(e), flagged: reason });
+  }
+
+  if (req.method === "GET" && url.pathname === "/leaderboard") {
+    const limit = Number(q.get("limit") || 3);
+    return json(res, 200, { data: board(range).slice(0, limit) });
+  }
+
+  if (req.method === "GET" && player?.[2] === "total") {
+    const ig = normalizeIG(safeDecode(player[1]));
+    return json(res, 200, { ig, count: countFor(ig) });
+  }
+
+  if (req.method === "GET" && player?.[2] === "achievements") {
+    const ig = normalizeIG(safeDecode(player[1]));
+    const badges = events
+      // ตัวที่ติดธง (เช่น not_owner บน IG ที่ถูกจอง) ไม่นับ — ตรงกับ src/backend/local.ts
+      .filter((e) => e.event === "achievement" && !e.flagged && normalizeIG(e.playerIG) === ig)
+      .map((e) => e.badge);
+    return json(res, 200, { data: [...new Set(badges)] });
+  }
+
+  if (req.method === "GET" && player?.[2] === "claim") {
+    const c = claims.get(normalizeIG(safeDecode(player[1])));
+    return json(res, 200, { claimed: !!c, mine: !!c?.keys.has(q.get("device") || "") });
+  }
+
+  const profile = url.pathname.match(/^\/players\/([^/]+)$/);
+  if (req.method === "GET" && profile) {
+    return json(res, 200, playerCard(normalizeIG(safeDecode(profile[1]))));
+  }
+
+  if (req.method === "GET" && url.pathname === "/teams") {
+    const limit = Number(q.get("limit") || 3);
+    const rows = [...teamStats(range)]
+      .map(([code, t]) => teamRow(code, t))
+      .filter((r) => r.size > 0 || r.count > 0)
+      .sort((a, b) => b.count - a.count);
+    return json(res, 200, { data: rows.slice(0, limit) });
+  }
+
+  const team = url.pathname.match(/^\/teams\/([^/]+)$/);
+  if (req.method === "GET" && team) {
+    const code = teamCode(safeDecode(team[1]));
+    const t = teamStats(range).get(code);
+    if (!t) return json(res, 200, { code, name: "", count: 0, size: 0, members: [] });
+    const members = [...new Set([...t.members, ...t.feeds.keys()])]
+      .map((ig) => ({ ig, count: t.feeds.get(ig) || 0 }))
+      .sort((a, b) => b.count - a.count);
+    return json(res, 200, { ...teamRow(code, t), members });
+  }
+
+  if (req.method === "GET" && url.pathname === "/analytics") {
+    const data = events.filter(
+      (e) => e.event === "analytics" && inRange(e.ts, range.from, range.to)
+    );
+    return json(res, 200, { data });
+  }
+
+  if (req.method === "GET" && url.pathname === "/stream") {
+    res.writeHead(200, {
+      ...CORS,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const client = { res, ...range, ig: normalizeIG(q.get("ig") || "") };
+    clients.add(client);
+    send(res, "board", { data: board(range).slice(0, Number(q.get("limit") || 3)) });
+    if (client.ig) send(res, "me", { ig: client.ig, count: countFor(client.ig) });
+    const ping = setInterval(() => res.write(": ping\n\n"), 25000);
+    req.on("close", () => {
+      clearInterval(ping);
+      clients.delete(client);
+    });
+    return;
+  }
+
+  json(res, 404, { error: "not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`hamster mock backend on http://localhost:${PORT}`);
+});
@@ -1,231 +1,126 @@
-import { memo, useEffect, useMemo, useRef, useState } from "react";
+import {
+  memo,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import "./App.css";
 
-import ham1 from "./assets/ham1.gif";
-import ham2 from "./assets/ham2.gif";
-import ham3 from "./assets/ham3.gif";
-import ham4 from "./assets/ham4.gif";
-import ham5 from "./assets/ham5.gif";
-import ham_ag from "./assets/ham_ag.gif";
-
-type Screen =
-  | "onboarding"
-  | "ham1"
-  | "ham2"
-  | "ham3"
-  | "ham4"
-  | "ham5"
-  | "ham_ag";
-
-const IMAGES: Record<Exclude<Screen, "onboarding">, string> = {
-  ham1,
-  ham2,
-  ham3,
-  ham4,
-  ham5,
-  ham_ag,
-};
-
-const isIGValid = (ig: string) =>
-  /^[A-Za-z0-9._]{1,30}$/.test(ig.replace(/^@/, ""));
-
-/** ✅ ใช้ IG แบบ canonical เป็นตัวพิมพ์เล็กเสมอ */
-const normalizeIG = (ig: string) => {
-  const clean = ig.trim().replace(/^@/, "");
-  return clean ? `@${clean.toLowerCase()}` : "";
-};
-
-/* ====== CONFIG: Google Apps Script Web App URL ====== */
-const SHEET_ENDPOINT =
-  "https://script.google.com/macros/s/AKfycbxJHR93D1OHO7SJp8dlwFP4Gyy8m4Inoe-BM9EwCiLTKeZqp0Ry9Fh-kzpSu45LFnvc/exec";
-
-/* ====== LocalStorage Keys ====== */
-const LS_KEYS = {
-  hamsterName: "hamsterName",
-  playerIG: "playerIG",
-  onboarded: "onboarded",
-  localFeedCount: "localFeedCount",
-} as const;
-
-/* ====== Logger → Google Sheet ====== */
-function logToSheet(payload: {
-  hamsterName?: string;
-  playerIG?: string;
-  event: "start" | "feed";
-}) {
-  try {
-    fetch(SHEET_ENDPOINT, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      mode: "no-cors",
-      body: JSON.stringify({ ...payload, ua: navigator.userAgent }),
-      keepalive: true,
-    });
-  } catch (e) {
-    console.warn("logToSheet failed", e);
-  }
-}
-
-/* ====== Leaderboard: remote fetch (with timeout & JSONP fallback) ====== */
-async function fetchWithTimeout(input: RequestInfo, ms = 6000) {
-  const ctrl = new AbortController();
-  const id = setTimeout(() => ctrl.abort(), ms);
-  try {
-    const res = await fetch(input, {
-      signal: ctrl.signal,
-      cache: "no-store",
-      credentials: "omit",
-    });
-    return res;
-  } finally {
-    clearTimeout(id);
-  }
-}
-
-/** JSONP helper — ข้าม CORS/redirect ได้ */
-function jsonp<T = any>(url: string, timeoutMs = 8000): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const cbName = "__jsonp_cb_" + Math.random().toString(36).slice(2);
-    const src = url + (url.includes("?") ? "&" : "?") + "callback=" + cbName;
-
-    const script = document.createElement("script");
-    let timer: number | undefined;
-
-    (window as any)[cbName] = (data: T) => {
-      cleanup();
-      resolve(data);
-    };
-
-    function cleanup() {
-      if (script.parentNode) script.parentNode.removeChild(script);
-      try {
-        delete (window as any)[cbName];
-      } catch {}
-      if (timer) window.clearTimeout(timer);
-    }
-
-    script.src = src;
-    script.async = true;
-    script.defer = true;
-    script.onerror = () => {
-      cleanup();
-      reject(new Error("JSONP load error"));
-    };
-    document.head.appendChild(script);
-
-    timer = window.setTimeout(() => {
-      cleanup();
-      reject(new Error("JSONP timeout"));
-    }, timeoutMs);
-  });
-}
-
-/** รวมผล leaderboard จาก server → canonical (ไม่แยกพิมพ์เล็ก-ใหญ่) */
-function mergeIGCaseInsensitive(items: Array<{ ig: string; count: number }>) {
-  const map = new Map<string, number>();
-  for (const r of items || []) {
-    const key = normalizeIG(r.ig);
-    map.set(key, (map.get(key) || 0) + (Number(r.count) || 0));
-  }
-  return Array.from(map, ([ig, count]) => ({ ig, count })).sort(
-    (a, b) => b.count - a.count
-  );
-}
-
-/** ลอง fetch ปกติ → ถ้า fail ใช้ JSONP */
-async function fetchLeaderboard(): Promise<{
-  ok: boolean;
-  data: Array<{ ig: string; count: number }>;
-  error?: string;
-}> {
-  const url = `${SHEET_ENDPOINT}?leaderboard=1&limit=3`;
-
-  try {
-    const res = await fetchWithTimeout(url, 6000);
-    if (!res.ok) throw new Error("HTTP " + res.status);
-    const text = await res.text(); // ถ้าโดนหน้า login HTML → JSON.parse จะ throw
-    const json = JSON.parse(text);
-    const data = Array.isArray(json?.data)
-      ? mergeIGCaseInsensitive(json.data)
-      : [];
-    return { ok: true, data };
-  } catch (e: any) {
-    try {
-      const j: any = await jsonp(url, 8000);
-      const data = Array.isArray(j?.data) ? mergeIGCaseInsensitive(j.data) : [];
-      return { ok: true, data };
-    } catch (e2: any) {
-      return {
-        ok: false,
-        data: [],
-        error: e2?.message || e?.message || "Fetch failed",
-      };
-    }
-  }
-}
-
-/* ====== Fallback (local) ====== */
-function incLocalFeedCount(ig: string) {
-  const key = normalizeIG(ig);
-  if (!key) return;
-  const raw = localStorage.getItem(LS_KEYS.localFeedCount);
-  const obj = raw ? (JSON.parse(raw) as Record<string, number>) : {};
-  obj[key] = (obj[key] || 0) + 1;
-  localStorage.setItem(LS_KEYS.localFeedCount, JSON.stringify(obj));
-}
-
-function getLocalTopN(n = 3): Array<{ ig: string; count: number }> {
-  const raw = localStorage.getItem(LS_KEYS.localFeedCount);
-  const obj = raw ? (JSON.parse(raw) as Record<string, number>) : {};
-  return Object.entries(obj)
-    .map(([ig, count]) => ({ ig, count }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, n);
-}
-
-/** 🔹 ดึงจำนวน feed สำหรับ IG หนึ่งคนจาก localStorage (fallback) */
-function getLocalFeedCountFor(ig: string): number {
-  const key = normalizeIG(ig);
-  if (!key) return 0;
-  const raw = localStorage.getItem(LS_KEYS.localFeedCount);
-  const obj = raw ? (JSON.parse(raw) as Record<string, number>) : {};
-  return Number(obj[key] || 0);
-}
+import {
+  applyDelta,
+  backend,
+  boardCache,
+  CAMPAIGN,
+  mergeIGCaseInsensitive,
+  outbox,
+  rankOf,
+  windowRange,
+  connectLive,
+  streamQuery,
+  type LeaderRow,
+  type LeaderWindow,
+  type LiveStatus,
+  type TeamRow,
+} from "./backend";
+import { audio, FEED_SFX } from "./audio";
+import { useAudioSettings } from "./audio/useAudio";
+import {
+  createRateLimiter,
+  MAX_FEEDS_PER_MINUTE,
+  MIN_FEED_GAP_MS,
+} from "./anticheat/rules";
+import type { Badge } from "./achievements/catalog";
+import { analytics } from "./analytics";
+import { achievements, type GameHappening } from "./achievements/tracker";
+import { claimPayload, isPinValid } from "./anticheat/claim";
+import { hasSessionFor } from "./anticheat/session";
+import { linkDevice, useClaim } from "./anticheat/useClaim";
+import type { MessageKey } from "./i18n";
+import { useI18n } from "./i18n/useI18n";
+import BadgeShelf from "./components/BadgeShelf";
+import BadgeToasts from "./components/BadgeToasts";
+import ClaimMark from "./components/ClaimMark";
+import CookieCatch from "./components/CookieCatch";
+import LeaderboardPage from "./components/LeaderboardPage";
+import NeedsBar from "./components/NeedsBar";
+import LocaleSwitcher from "./components/LocaleSwitcher";
+import PlayerPage from "./components/PlayerPage";
+import ProfileSwitcher from "./components/ProfileSwitcher";
+import ReminderSettings from "./components/ReminderSettings";
+import TeamPage from "./components/TeamPage";
+import TeamPicker from "./components/TeamPicker";
+import ThemeSwitcher from "./components/ThemeSwitcher";
+import TransferDialog, { type TransferMode } from "./components/TransferDialog";
+import { isIGValid, normalizeIG } from "./lib/ig";
+import { getLocalTopN, incLocalFeedCount } from "./profiles/feedCounts";
+import { profileStore } from "./profiles/store";
+import { useProfiles } from "./profiles/useProfiles";
+import type { Needs } from "./hamster/needs";
+import { needsStore } from "./hamster/store";
+import { isSameOrigin, renderHamsterCard, shareOrDownload } from "./share/card";
+import { canPlayMiniGame, markSlowDevice, stageOf } from "./minigame/support";
+import { draftFor, isDraftValid, teamFromDraft } from "./teams/draft";
+import { backupTextFromHash } from "./transfer/qr";
+import {
+  captionFor,
+  imageFor,
+  isTerminal,
+  nextNodes,
+  pickMood,
+  resolveScenario,
+  textFor,
+} from "./scenario";
+import {
+  formatCountdown,
+  liveEvents,
+  withEventTheme,
+  type LiveEvent,
+} from "./events";
+import {
+  useCountdown,
+  useLiveEvent,
+  type LiveEventState,
+} from "./events/useLiveEvent";
+import { themeStore } from "./theme";
+import { router, type Route } from "./router";
+import { referrals } from "./router/referral";
+import { useRoute } from "./router/useRoute";
+import { reminders } from "./reminders";
+import { useReminders } from "./reminders/useReminders";
+
+/** เรื่องที่เล่นอยู่ (nodes/ภาพ/คำพูด มาจาก JSON) — อีเวนต์เปลี่ยนภาพ/คำพูดได้ */
+const baseScenario = resolveScenario();
+
+/** "onboarding" หรือ key ของ node ใน scenario */
+type Screen = string;
+
+/* ====== Client-side throttle ของปุ่ม Feed (เพดานต่ำกว่า server นิดหน่อย) ====== */
+const feedLimiter = createRateLimiter({
+  perMinute: MAX_FEEDS_PER_MINUTE - 2,
+  minGapMs: MIN_FEED_GAP_MS,
+});
 
-/** ⭐ ดึงจำนวน Feed "ทั้งหมด" ของ IG นี้จาก Google Sheet (รวมทุกวัน / ทุกเครื่อง)
- *    - ถ้าออนไลน์โอเค → คืนค่าเป็น number (0+)
- *    - ถ้าเน็ต/ชีตพัง → คืน null ให้ไป fallback เป็น local
- */
-async function fetchMyTotalFeed(ig: string): Promise<number | null> {
-  const key = normalizeIG(ig);
-  if (!key) return null;
-
-  const url = `${SHEET_ENDPOINT}?leaderboard=1&limit=9999`;
-
-  try {
-    const res = await fetchWithTimeout(url, 6000);
-    if (!res.ok) throw new Error("HTTP " + res.status);
-    const text = await res.text();
-    const json = JSON.parse(text);
-    const data = Array.isArray(json?.data)
-      ? mergeIGCaseInsensitive(json.data)
-      : [];
-
-    const row = data.find((r) => normalizeIG(r.ig) === key);
-    if (!row) return 0;
-    return Number(row.count || 0);
-  } catch (e: any) {
-    try {
-      const j: any = await jsonp(url, 8000);
-      const data = Array.isArray(j?.data) ? mergeIGCaseInsensitive(j.data) : [];
-      const row = data.find((r) => normalizeIG(r.ig) === key);
-      if (!row) return 0;
-      return Number(row.count || 0);
-    } catch {
-      return null;
-    }
+/** ฉากแรกของ profile: ตาม needs ถ้าเรื่องมี moods, ไม่งั้นเริ่มที่ start */
+const entryScreen = (profileId: string) =>
+  pickMood(baseScenario, needsStore.get(profileId)) || baseScenario.start;
+
+/** route ของฉาก (ฉากเปลี่ยน = URL เปลี่ยน รีเฟรช/แชร์แล้วกลับมาฉากเดิม) */
+const routeOf = (screen: Screen): Route =>
+  screen === "onboarding"
+    ? { name: "onboarding" }
+    : { name: "play", node: screen };
+
+/** ฉากตอนเปิดแอป: /play/:node ที่มีจริง → ฉากนั้น, /start หรือยังไม่มี profile → ฟอร์ม */
+const initialScreen = (route: Route, profileId?: string): Screen => {
+  if (!profileId || route.name === "onboarding") return "onboarding";
+  if (route.name === "play" && baseScenario.nodes[route.node]) {
+    return route.node;
   }
-}
+  return entryScreen(profileId);
+};
 
 /* ====== Preload helper ====== */
 const preload = (src: string) =>
@@ -250,175 +145,247 @@ function useIsMobile(breakpoint = 480) {
   return mobile;
 }
 
-/* ====== PlayButton (memo เพื่อลด re-render) ====== */
-const PlayButtonDock = memo(function PlayButtonDock() {
-  const styles: Record<string, React.CSSProperties> = {
-    fab: {
-      position: "fixed",
-      left: 12,
-      bottom: 12,
-      width: 52,
-      height: 52,
-      borderRadius: "50%",
-      background: "linear-gradient(145deg, #202020, #111)",
-      color: "#fff",
-      display: "flex",
-      alignItems: "center",
-      justifyContent: "center",
-      fontSize: 20,
-      fontWeight: 700,
-      cursor: "pointer",
-      zIndex: 1000,
-      userSelect: "none",
-      boxShadow:
-        "0 6px 14px rgba(0,0,0,0.45), inset 0 0 8px rgba(255,255,255,0.05)",
-      border: "1px solid rgba(255,255,255,0.15)",
-      transition: "transform .15s ease, filter .15s ease, box-shadow .15s ease",
-      WebkitTapHighlightColor: "transparent",
-    },
-    hover: {
-      filter: "brightness(1.15)",
-      transform: "translateY(-2px) scale(1.03)",
-      boxShadow: "0 10px 18px rgba(0,0,0,0.55)",
-    },
-    active: {
-      transform: "translateY(0) scale(0.97)",
-      boxShadow: "0 4px 10px rgba(0,0,0,0.35)",
-    },
-  };
+/* ====== Hook: จำนวน event ที่ยังค้างใน outbox ====== */
+function usePendingSync() {
+  return useSyncExternalStore(outbox.subscribe, outbox.pendingCount);
+}
 
-  const TRACK_URL =
-    "https://open.spotify.com/track/7eJMfftS33KTjuF7lTsMCx?utm_source=generator";
+/* ====== ปุ่มเสียง (memo เพื่อลด re-render) — กด = mute/unmute, แถบข้าง ๆ = volume ====== */
+const AudioDock = memo(function AudioDock(props: { mobile: boolean }) {
+  const { t } = useI18n();
+  const { muted, volume } = useAudioSettings();
+  const label = muted ? t("audio.unmute") : t("audio.mute");
 
-  const [hover, setHover] = useState(false);
-  const [down, setDown] = useState(false);
+  return (
+    <>
+      <button
+        aria-label={label}
+        aria-pressed={muted}
+        title={label}
+        onClick={() => audio.toggleMute()}
+        className="audio-fab"
+      >
+        {muted ? "🔇" : "🔊"}
+      </button>
+      {/* มือถือปรับเสียงจากปุ่มเครื่องได้อยู่แล้ว */}
+      {!props.mobile && (
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={muted ? 0 : Math.round(volume * 100)}
+          onChange={(e) => audio.setVolume(Number(e.target.value) / 100)}
+          aria-label={t("audio.volume")}
+          title={t("audio.volume")}
+          className="audio-volume"
+        />
+      )}
+    </>
+  );
+});
 
+/* ====== แท็บช่วงเวลาของ leaderboard ====== */
+const WINDOW_TABS: Array<{ key: LeaderWindow; label: MessageKey | string }> = [
+  { key: "day", label: "top3.tab.day" },
+  { key: "week", label: "top3.tab.week" },
+  { key: "all", label: "top3.tab.all" },
+  // ชื่อแคมเปญมาจาก env — ไม่แปล
+  ...(CAMPAIGN ? [{ key: "campaign" as const, label: CAMPAIGN.name }] : []),
+];
+
+/** Top3Box: อันดับผู้เล่น หรืออันดับทีม */
+type LeaderBoardKind = "players" | "teams";
+
+/* ====== ตัวคูณ + เวลาที่เหลือของอีเวนต์ในกล่องคุกกี้ (เดินทุกวินาทีเฉพาะตัวนี้) ====== */
+const HudEventTimer = memo(function HudEventTimer(props: {
+  event: LiveEvent;
+  cookies: number;
+}) {
+  const { event, cookies } = props;
+  const { t, n, locale } = useI18n();
+  const time = formatCountdown(useCountdown(event.end));
   return (
-    <button
-      aria-label="Play music"
-      title="Play"
-      onClick={() => window.open(TRACK_URL, "_blank", "noopener,noreferrer")}
-      style={{
-        ...styles.fab,
-        ...(hover ? styles.hover : {}),
-        ...(down ? styles.active : {}),
-      }}
-      onMouseEnter={() => setHover(true)}
-      onMouseLeave={() => {
-        setHover(false);
-        setDown(false);
-      }}
-      onMouseDown={() => setDown(true)}
-      onMouseUp={() => setDown(false)}
+    <span
+      title={textFor(event.name, locale)}
+      aria-label={t("event.counterAria", {
+        name: textFor(event.name, locale),
+        time,
+      })}
+      className="hud-event"
     >
-      ▶
-    </button>
+      {cookies > 1 && `×${n(cookies)} `}⏱ {time}
+    </span>
   );
 });
 
-/* ====== TOP 3 Box (mobile = small bottom-right) ====== */
+/* ====== TOP 3 Box (มุมขวาล่าง — จอเล็กย่อลงด้วย CSS) ====== */
 const Top3Box = memo(function Top3Box(props: {
-  items: Array<{ ig: string; count: number }>;
+  items: LeaderRow[];
   loading: boolean;
   error?: string | null;
   onRefresh?: () => void;
-  mobile: boolean;
+  pending: number;
+  live: boolean;
+  window: LeaderWindow;
+  onWindowChange: (w: LeaderWindow) => void;
+  onOpenFull: () => void;
+  board: LeaderBoardKind;
+  onBoardChange: (b: LeaderBoardKind) => void;
+  teams: TeamRow[];
+  onOpenTeam: (code: string) => void;
+  onOpenPlayer: (ig: string) => void;
+  liveEvent: LiveEventState;
 }) {
-  const { items, loading, error, onRefresh, mobile } = props;
-
-  const base: React.CSSProperties = {
-    position: "fixed",
-    right: mobile ? 10 : 14,
-    bottom: mobile ? 10 : 14,
-    width: mobile ? 210 : 260,
-    background: "rgba(0,0,0,0.78)",
-    border: "1px solid rgba(255,255,255,0.15)",
-    borderRadius: 12,
-    padding: mobile ? 10 : 12,
-    color: "#fff",
-    zIndex: 999,
-    backdropFilter: "blur(6px)",
-    boxShadow: "0 8px 18px rgba(0,0,0,0.35)",
-    WebkitTapHighlightColor: "transparent",
-  };
-
-  const titleStyle: React.CSSProperties = {
-    fontWeight: 700,
-    fontSize: mobile ? 14 : 16,
-  };
-
-  const btnStyle: React.CSSProperties = {
-    padding: mobile ? "4px 8px" : "2px 8px",
-    fontSize: mobile ? 12 : 12,
-    borderRadius: 8,
-    lineHeight: 1.1,
-    background: "#3ee680",
-    color: "#000",
-    border: "1px solid #2fbf68",
-    fontWeight: 600,
-    cursor: "pointer",
-  };
-
-  const listItemStyle: React.CSSProperties = {
-    marginBottom: 4,
-    lineHeight: 1.25,
-    fontSize: mobile ? 13 : 14,
-  };
-
-  const footerStyle: React.CSSProperties = {
-    fontSize: mobile ? 10 : 12,
-    opacity: 0.7,
-    marginTop: 6,
-  };
+  const { items, loading, error, onRefresh, pending, live } = props;
+  const { window: win, onWindowChange, onOpenFull } = props;
+  const { board, onBoardChange, teams, onOpenTeam, onOpenPlayer } = props;
+  const ev = props.liveEvent;
+  // นับถอยหลังเฉพาะในกล่องนี้ — App ไม่ต้อง re-render ทุกวินาที
+  const countdown = useCountdown(ev.event?.end ?? ev.next?.start);
+  const { t, tDynamic, locale } = useI18n();
+  // อีเวนต์ที่กำลังจัด → มีแท็บ leaderboard ของอีเวนต์ (ชื่อมาจากตาราง ไม่ต้องแปล)
+  const tabs = ev.event
+    ? [
+        ...WINDOW_TABS,
+        { key: "event" as const, label: textFor(ev.event.name, locale) },
+      ]
+    : WINDOW_TABS;
 
   return (
-    <div style={base} aria-label="Top feeders">
-      <div
-        style={{
-          display: "flex",
-          justifyContent: "space-between",
-          alignItems: "center",
-          marginBottom: mobile ? 4 : 6,
-          gap: 6,
-        }}
-      >
-        <div style={titleStyle}>🏆 TOP 3</div>
+    <div className="top3" aria-label={t("top3.aria")}>
+      {(ev.event || ev.next) && (
+        <div role="status" className="top3-banner">
+          {ev.event ? (
+            <>
+              {t("event.live", {
+                name: textFor(ev.event.name, locale),
+                time: formatCountdown(countdown),
+              })}
+              {ev.cookies > 1 && (
+                <> · {t("event.cookies", { count: ev.cookies })}</>
+              )}
+            </>
+          ) : (
+            ev.next &&
+            t("event.soon", {
+              name: textFor(ev.next.name, locale),
+              time: formatCountdown(countdown),
+            })
+          )}
+        </div>
+      )}
+      <div className="top3-head">
+        <div className="top3-title">{t("top3.title")}</div>
         <button
           onClick={onRefresh}
-          className="button"
-          style={btnStyle}
-          aria-label="Refresh leaderboard"
+          className="button top3-refresh"
+          aria-label={t("top3.refreshAria")}
         >
-          Refresh
+          {t("top3.refresh")}
         </button>
       </div>
 
+      <div role="tablist" aria-label={t("top3.kindAria")} className="top3-tabs">
+        {(["players", "teams"] as const).map((b) => (
+          <button
+            key={b}
+            role="tab"
+            aria-selected={board === b}
+            className="top3-tab"
+            onClick={() => onBoardChange(b)}
+          >
+            {t(`top3.${b}`)}
+          </button>
+        ))}
+      </div>
+
+      <div
+        role="tablist"
+        aria-label={t("top3.periodAria")}
+        className="top3-tabs period"
+      >
+        {tabs.map((tab) => (
+          <button
+            key={tab.key}
+            role="tab"
+            aria-selected={win === tab.key}
+            className="top3-tab"
+            onClick={() => onWindowChange(tab.key)}
+          >
+            {tDynamic(tab.label, tab.label)}
+          </button>
+        ))}
+      </div>
+
       {loading ? (
-        <div style={{ opacity: 0.85, fontSize: mobile ? 12 : 14 }}>
-          Loading…
-        </div>
+        <div className="top3-msg">{t("common.loading")}</div>
       ) : error ? (
-        <div style={{ color: "#ffb3b3", fontSize: mobile ? 12 : 14 }}>
-          Failed to load
+        <div className="top3-msg error">
+          {t("common.failed")}
           <br />
-          <small style={{ opacity: 0.8 }}>{error}</small>
+          <small>{error}</small>
         </div>
+      ) : board === "teams" ? (
+        teams.length === 0 ? (
+          <div className="top3-msg">{t("top3.teamsEmpty")}</div>
+        ) : (
+          <ol className="top3-list">
+            {teams.map((r) => (
+              <li key={r.code}>
+                <button
+                  onClick={() => onOpenTeam(r.code)}
+                  title={t("team.open")}
+                  className="top3-team"
+                >
+                  {r.name}
+                </button>
+                <span className="top3-count">
+                  {" "}
+                  — {t("top3.feeds", { count: r.count })}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )
       ) : items.length === 0 ? (
-        <div style={{ opacity: 0.85, fontSize: mobile ? 12 : 14 }}>
-          Try feeding it!
-        </div>
+        <div className="top3-msg">{t("top3.empty")}</div>
       ) : (
-        <ol style={{ margin: 0, paddingLeft: 18 }}>
+        <ol className="top3-list">
           {items.map((r) => (
-            <li key={r.ig} style={listItemStyle}>
-              <span style={{ fontWeight: 600 }}>{normalizeIG(r.ig)}</span>
-              <span style={{ opacity: 0.85 }}> — {r.count} feed</span>
+            <li key={r.ig}>
+              <button
+                onClick={() => onOpenPlayer(r.ig)}
+                title={t("player.open")}
+                className="top3-name"
+              >
+                {normalizeIG(r.ig)}
+              </button>
+              <ClaimMark claimed={r.claimed} />
+              <span className="top3-count">
+                {" "}
+                — {t("top3.feeds", { count: r.count })}
+              </span>
             </li>
           ))}
         </ol>
       )}
 
-      <div style={footerStyle}>(Auto-updates every 20 seconds)</div>
+      <button
+        onClick={onOpenFull}
+        hidden={board === "teams"}
+        className="top3-more"
+      >
+        {t("top3.seeAll")}
+      </button>
+
+      {pending > 0 && (
+        <div className="top3-footer pending">
+          ⏳ {t("sync.pending", { count: pending })}
+        </div>
+      )}
+      <div className="top3-footer">
+        {live ? t("top3.live") : t("top3.autoUpdate")}
+      </div>
     </div>
   );
 });
@@ -428,124 +395,478 @@ const Top3Box = memo(function Top3Box(props: {
    =========================== */
 export default function App() {
   const isMobile = useIsMobile(520);
-
-  const savedHam = useMemo(
-    () => localStorage.getItem(LS_KEYS.hamsterName) || "",
-    []
+  const pendingSync = usePendingSync();
+  const { t, n, locale } = useI18n();
+
+  // ส่ง event ที่ค้างจากรอบก่อน + retry ตอนเน็ตกลับมา
+  useEffect(() => outbox.start(), []);
+  // เสียงเริ่มหลังแตะจอครั้งแรก (นโยบาย autoplay)
+  useEffect(() => audio.start(), []);
+  // ตารางอีเวนต์: โหลดตอนเปิด + โหลดซ้ำเป็นระยะ (แก้ตารางได้โดยไม่ต้อง deploy)
+  useEffect(() => liveEvents.start(), []);
+
+  const { profiles, active } = useProfiles();
+  const live = useLiveEvent();
+  const scenario = useMemo(
+    () => withEventTheme(baseScenario, live.event),
+    [live.event]
   );
-  const savedIG = useMemo(
-    () => localStorage.getItem(LS_KEYS.playerIG) || "",
-    []
+  // สีของอีเวนต์ทับธีมเฉพาะตอนอีเวนต์จัดอยู่
+  useEffect(() => themeStore.setOverrides(live.event?.colors), [live.event]);
+  // เตือนแฮมสเตอร์หิว: เช็กตอนสลับแท็บ + คำนวณใหม่ทุกครั้งที่ป้อน/เปลี่ยน profile
+  useEffect(() => reminders.start(), []);
+  useEffect(() => reminders.setProfiles(profiles), [profiles]);
+  const reminder = useReminders(active?.id || "").settings;
+
+  const route = useRoute();
+  // ?ref= จากลิงก์ที่เพื่อนแชร์ → จำไว้ให้ profile ใหม่ แล้วลบออกจาก URL
+  useEffect(() => {
+    if (referrals.capture(window.location.search)) {
+      router.navigate(router.getState(), { replace: true });
+    }
+  }, []);
+
+  const [screen, setScreen] = useState<Screen>(() =>
+    initialScreen(router.getState(), active?.id)
   );
-  const savedOnboarded = useMemo(
-    () => localStorage.getItem(LS_KEYS.onboarded) === "1",
-    []
+  const [hamsterName, setHamsterName] = useState<string>(
+    active?.hamsterName || ""
   );
-
-  const [screen, setScreen] = useState<Screen>(
-    savedOnboarded ? "ham1" : "onboarding"
+  const [playerIGInput, setPlayerIGInput] = useState<string>(active?.ig || "");
+  // ฟอร์ม onboarding ใช้ทั้ง "เพิ่มผู้เล่นใหม่" และ "แก้ profile ที่ใช้อยู่"
+  const [formMode, setFormMode] = useState<"new" | "edit">(
+    active ? "edit" : "new"
   );
-  const [hamsterName, setHamsterName] = useState<string>(savedHam);
-  const [playerIGInput, setPlayerIGInput] = useState<string>(savedIG);
   const playerIG = normalizeIG(playerIGInput);
   const formValid = hamsterName.trim().length > 0 && isIGValid(playerIG);
 
+  // 🔒 จอง IG: ครั้งแรกตั้ง PIN, IG ของคนอื่นต้องใส่ PIN เพื่อผูกเครื่อง
+  const claim = useClaim(playerIG);
+  const [pin, setPin] = useState("");
+  const [pinError, setPinError] = useState(false);
+  const [teamDraft, setTeamDraft] = useState(() => draftFor(active?.team));
+  const [linking, setLinking] = useState(false);
+  useEffect(() => setPinError(false), [pin, playerIG]);
+  const canStart =
+    formValid &&
+    !claim.checking &&
+    !linking &&
+    isDraftValid(teamDraft) &&
+    (claim.mode === "mine" || isPinValid(pin));
+
   const [imgLoaded, setImgLoaded] = useState(false);
   useEffect(() => setImgLoaded(false), [screen]);
 
-  // Preload ต่อเนื่องให้ภาพมาไว
+  /* ====== Analytics: ทุก event ติด IG ของ profile ที่ใช้อยู่ ====== */
+  useEffect(
+    () => analytics.setPlayer(active?.ig, active?.hamsterName),
+    [active?.ig, active?.hamsterName]
+  );
+  // ref กัน StrictMode ยิง effect ซ้ำตอน mount
+  const viewedRef = useRef<Screen>();
+  useEffect(() => {
+    if (viewedRef.current === screen) return;
+    viewedRef.current = screen;
+    analytics.log("screen_view", { screen });
+  }, [screen]);
+
+  // Preload ต่อเนื่องให้ภาพมาไว (ทุก node ที่ไปต่อได้จากฉากนี้)
   useEffect(() => {
     (async () => {
-      if (screen === "ham1") await preload(IMAGES.ham2);
-      if (screen === "ham2") await preload(IMAGES.ham3);
-      if (screen === "ham3") await preload(IMAGES.ham4);
-      if (screen === "ham4") await preload(IMAGES.ham5);
-      if (screen !== "ham_ag") await preload(IMAGES.ham_ag);
+      const from = screen === "onboarding" ? scenario.start : screen;
+      for (const next of nextNodes(scenario, from)) {
+        await preload(imageFor(scenario, next));
+      }
     })();
-  }, [screen]);
+  }, [screen, scenario]);
 
   const goScreen = async (next: Screen) => {
-    if (next !== "onboarding") {
-      const src = IMAGES[next as Exclude<Screen, "onboarding">];
-      await preload(src);
-    }
+    if (next !== "onboarding") await preload(imageFor(scenario, next));
     setScreen(next);
+    if (next === "onboarding") return;
+    track({ type: "reach", node: next, ts: Date.now() });
+    const sound = scenario.nodes[next]?.sound;
+    if (sound) audio.play(sound);
   };
 
-  const startGame = () => {
-    if (!formValid) return;
-    localStorage.setItem(LS_KEYS.hamsterName, hamsterName.trim());
-    localStorage.setItem(LS_KEYS.playerIG, playerIG);
-    localStorage.setItem(LS_KEYS.onboarded, "1");
-    logToSheet({ hamsterName: hamsterName.trim(), playerIG, event: "start" });
-    goScreen("ham1");
+  const startGame = async () => {
+    if (!canStart) return;
+    if (claim.mode === "link") {
+      setLinking(true);
+      const ok = await linkDevice(playerIG, pin);
+      setLinking(false);
+      claim.recheck();
+      if (!ok) {
+        setPinError(true);
+        return;
+      }
+    } else if (claim.mode === "claim") {
+      outbox.enqueue(
+        await claimPayload("claim", playerIG, pin, hamsterName.trim())
+      );
+    }
+    setPin("");
+    analytics.log("profile_edit", { detail: formMode });
+    const team = teamFromDraft(teamDraft);
+    let profileId: string;
+    if (formMode === "edit" && active) {
+      profileStore.update(active.id, { hamsterName, ig: playerIG, team });
+      profileId = active.id;
+    } else {
+      profileId = profileStore.add(hamsterName, playerIG, team || undefined).id;
+    }
+    // profile ใหม่ที่มาจากลิงก์ของเพื่อน → เครดิตคนชวน (ครั้งเดียว)
+    const ref = formMode === "new" ? referrals.take(playerIG) : undefined;
+    setFormMode("edit");
+    setTeamDraft(draftFor(team));
+    // ทีมไปกับ start เสมอ ("" = ออกจากทีม) — ชื่อทีมส่งเฉพาะตอนสร้าง
+    outbox.enqueue({
+      hamsterName: hamsterName.trim(),
+      playerIG,
+      event: "start",
+      team: team?.code ?? "",
+      ...(teamDraft.mode === "create" && team && { teamName: team.name }),
+      ...(ref && { ref }),
+    });
+    goScreen(entryScreen(profileId));
+    // ทีมใหม่ → เปิดหน้าทีมให้คัดลอกรหัสไปแชร์
+    if (teamDraft.mode === "create" && team) setOpenTeam(team.code);
   };
 
-  const [beforeEditHam, setBeforeEditHam] = useState<string>("");
-  const [beforeEditIG, setBeforeEditIG] = useState<string>("");
-
   const enterEditProfile = () => {
-    setBeforeEditHam(localStorage.getItem(LS_KEYS.hamsterName) || hamsterName);
-    setBeforeEditIG(localStorage.getItem(LS_KEYS.playerIG) || playerIG);
-    setHamsterName(localStorage.getItem(LS_KEYS.hamsterName) || hamsterName);
-    setPlayerIGInput(localStorage.getItem(LS_KEYS.playerIG) || playerIG);
+    setHamsterName(active?.hamsterName || hamsterName);
+    setPlayerIGInput(active?.ig || playerIG);
+    setTeamDraft(draftFor(active?.team));
+    setFormMode(active ? "edit" : "new");
+    setScreen("onboarding");
+  };
+
+  const enterAddProfile = () => {
+    setHamsterName("");
+    setPlayerIGInput("");
+    setTeamDraft(draftFor(null));
+    setFormMode("new");
     setScreen("onboarding");
   };
 
   const backToGame = () => {
-    const oldName =
-      beforeEditHam || localStorage.getItem(LS_KEYS.hamsterName) || "";
-    const oldIG = beforeEditIG || localStorage.getItem(LS_KEYS.playerIG) || "";
-    setHamsterName(oldName);
-    setPlayerIGInput(oldIG);
-    goScreen("ham1");
+    setHamsterName(active?.hamsterName || "");
+    setPlayerIGInput(active?.ig || "");
+    setTeamDraft(draftFor(active?.team));
+    setFormMode("edit");
+    goScreen(active ? entryScreen(active.id) : scenario.start);
+  };
+
+  const switchProfile = (id: string) => {
+    const p = profiles.find((x) => x.id === id);
+    if (!p || p.id === active?.id) return;
+    profileStore.setActive(id);
+    analytics.log("profile_edit", { detail: "switch" });
+    setHamsterName(p.hamsterName);
+    setPlayerIGInput(p.ig);
+    setTeamDraft(draftFor(p.team));
+    goScreen(entryScreen(p.id));
+  };
+
+  const deleteProfile = () => {
+    if (!active) return;
+    const question = t("profile.deleteConfirm", {
+      ig: active.ig,
+      name: active.hamsterName,
+    });
+    if (!window.confirm(question)) return;
+    analytics.log("profile_edit", { detail: "delete" });
+    profileStore.remove(active.id);
+    needsStore.remove(active.id);
+    achievements.remove(active.id);
+    reminders.remove(active.id);
+    const next = profileStore.active();
+    setHamsterName(next?.hamsterName || "");
+    setPlayerIGInput(next?.ig || "");
+    setTeamDraft(draftFor(next?.team));
+    setFormMode(next ? "edit" : "new");
+    if (next) goScreen(entryScreen(next.id));
+  };
+
+  /* ====== ฉาก ↔ URL ======
+     ฉากใหม่ = entry ใหม่ใน history → ปุ่ม back ของเบราว์เซอร์ย้อนฉากได้
+     leaderboard / หน้าผู้เล่นเป็น route ของตัวเอง (overlay) ระหว่างเปิดไม่แตะ URL ของฉาก */
+  useEffect(() => {
+    const current = router.getState();
+    if (current.name === "leaderboard" || current.name === "player") return;
+    router.navigate(routeOf(screen), { replace: current.name === "home" });
+  }, [screen]);
+
+  useEffect(() => {
+    if (route.name === "play") {
+      // ฉากที่ไม่มีในเรื่อง / ยังไม่มี profile → กลับหน้าแรก
+      if (!active || !scenario.nodes[route.node]) {
+        router.navigate({ name: "home" }, { replace: true });
+      } else if (route.node !== screen) {
+        setScreen(route.node);
+      }
+    } else if (route.name === "onboarding") {
+      if (screen !== "onboarding") enterEditProfile();
+    } else if (route.name === "home") {
+      router.navigate(routeOf(screen), { replace: true });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [route]);
+
+  /* ====== Backup / ย้ายเครื่อง (เปิดจากกล่อง IG, หน้า onboarding หรือลิงก์ QR) ====== */
+  const [transfer, setTransfer] = useState<{
+    mode: TransferMode;
+    text?: string;
+  } | null>(() => {
+    const text = backupTextFromHash();
+    return text ? { mode: "import", text } : null;
+  });
+  const closeTransfer = useCallback(() => setTransfer(null), []);
+
+  // ลบ #import=... ออกจาก URL (ไม่ให้ติดไปตอนแชร์/รีเฟรช)
+  useEffect(() => {
+    if (backupTextFromHash()) {
+      const { pathname, search } = window.location;
+      window.history.replaceState(null, "", pathname + search);
+    }
+  }, []);
+
+  const onImported = (p: { id: string; hamsterName: string; ig: string }) => {
+    setTransfer(null);
+    setHamsterName(p.hamsterName);
+    setPlayerIGInput(p.ig);
+    setTeamDraft(draftFor(profileStore.active()?.team));
+    setFormMode("edit");
+    goScreen(entryScreen(p.id));
+  };
+
+  /* ====== Hamster needs (คำนวณใหม่ทุกนาที) ====== */
+  const [needs, setNeeds] = useState<Needs | null>(() =>
+    active ? needsStore.get(active.id) : null
+  );
+  useEffect(() => {
+    if (!active) {
+      setNeeds(null);
+      return;
+    }
+    const tick = () => setNeeds(needsStore.get(active.id));
+    tick();
+    const id = window.setInterval(tick, 60 * 1000);
+    return () => window.clearInterval(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active?.id]);
+
+  /* ====== Achievements ====== */
+  const [toasts, setToasts] = useState<Badge[]>([]);
+  const shiftToast = useCallback(() => setToasts((q) => q.slice(1)), []);
+  const [showBadges, setShowBadges] = useState(false);
+  const closeBadges = useCallback(() => setShowBadges(false), []);
+  const [showReminders, setShowReminders] = useState(false);
+  const closeReminders = useCallback(() => setShowReminders(false), []);
+
+  /** บันทึกลง profile ที่ใช้อยู่ → badge ใหม่: toast + ส่งเข้า outbox */
+  const track = (h: GameHappening) => {
+    const p = profileStore.active();
+    if (!p) return;
+    const fresh = achievements.record(p.id, h);
+    if (!fresh.length) return;
+    setToasts((q) => [...q, ...fresh]);
+    for (const b of fresh) {
+      outbox.enqueue({
+        hamsterName: p.hamsterName,
+        playerIG: p.ig,
+        event: "achievement",
+        badge: b.id,
+      });
+    }
+  };
+
+  // badge ที่ปลดล็อกจากเครื่องอื่น
+  useEffect(() => {
+    if (!active) return;
+    const { id, ig } = active;
+    backend.getAchievements(ig).then((ids) => {
+      if (ids?.length) achievements.mergeRemote(id, ids);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active?.id, active?.ig]);
+
+  /* ====== Share card (PNG ขนาด story) ====== */
+  const [sharing, setSharing] = useState(false);
+  const shareCard = async () => {
+    if (!active || sharing || screen === "onboarding") return;
+    setSharing(true);
+    try {
+      const board = await boardCache.get();
+      const rank = board.ok ? rankOf(board.data, active.ig) : 0;
+      // ภาพอีเวนต์จาก URL ภายนอกวาดลง canvas ไม่ได้ → ใช้ภาพปกติของฉากนี้แทน
+      const image = imageFor(scenario, screen);
+      const blob = await renderHamsterCard({
+        image: isSameOrigin(image) ? image : imageFor(baseScenario, screen),
+        hamsterName: active.hamsterName,
+        ig: active.ig,
+        labels: {
+          headline: t("card.headline"),
+          by: t("card.by", { ig: active.ig }),
+          cookies: n(myFeedCount),
+          rank: !rank
+            ? t("card.unranked")
+            : board.ok
+              ? t("card.rank", { rank, total: board.data.length })
+              : t("card.rankOnly", { rank }),
+        },
+      });
+      // ลิงก์หน้าผู้เล่นติด ?ref= → เพื่อนที่กดเข้ามาเล่นนับเป็นคนที่เราชวน
+      await shareOrDownload(
+        blob,
+        `hamster-${active.ig.slice(1)}.png`,
+        t("card.shareTitle"),
+        router.shareUrl({ name: "player", ig: active.ig }, active.ig)
+      );
+    } catch (e) {
+      console.warn("share card failed", e);
+    } finally {
+      setSharing(false);
+    }
   };
 
   /* ====== Leaderboard State ====== */
-  const [leaderboard, setLeaderboard] = useState<
-    Array<{ ig: string; count: number }>
-  >([]);
+  const [leaderboard, setLeaderboard] = useState<LeaderRow[]>([]);
   const [lbLoading, setLbLoading] = useState<boolean>(false);
   const [lbError, setLbError] = useState<string | null>(null);
+  const [lbWindow, setLbWindow] = useState<LeaderWindow>("all");
+  // อีเวนต์จบ → แท็บอีเวนต์หายไป กลับไปดูทั้งหมด
+  const eventLive = !!live.event;
+  useEffect(() => {
+    if (!eventLive) setLbWindow((w) => (w === "event" ? "all" : w));
+  }, [eventLive]);
+  const [lbBoard, setLbBoard] = useState<LeaderBoardKind>("players");
+  const [teams, setTeams] = useState<TeamRow[]>([]);
+  const [openTeam, setOpenTeam] = useState<string | null>(null);
+  const closeTeam = useCallback(() => setOpenTeam(null), []);
+  const openFullBoard = useCallback(
+    () => router.navigate({ name: "leaderboard", window: lbWindow }),
+    [lbWindow]
+  );
+  const openPlayer = useCallback(
+    (ig: string) => router.navigate({ name: "player", ig }),
+    []
+  );
+  const playFromPlayerPage = useCallback(
+    () => router.navigate(routeOf(screen)),
+    [screen]
+  );
 
   // 🔹 จำนวนครั้งที่ผู้เล่นคนนี้กด Feed (อ่านจากชีตรวมทุกวัน + fallback local)
   const [myFeedCount, setMyFeedCount] = useState<number>(0);
 
+  // ยอดจากชีต (รวมทุกเครื่อง) ก็นับเป็น milestone ได้
+  useEffect(() => {
+    if (myFeedCount > 0) {
+      track({ type: "total", total: myFeedCount, ts: Date.now() });
+    }
+  }, [myFeedCount]);
+
   // กันเรียกซ้อน (ทำให้ลื่น)
   const refreshingRef = useRef(false);
+  // TOP 3 ตอนนี้เป็นยอดในเครื่อง (โหลดจาก server ไม่ได้) → feed อัปเดตจากเครื่องได้
+  const localBoardRef = useRef(false);
+
+  const node = screen === "onboarding" ? undefined : scenario.nodes[screen];
+  const hasChoices = !!node && !isTerminal(node);
+  const displayHamsterName = active?.hamsterName || hamsterName;
+  const displayIG = active?.ig || playerIG;
 
-  const hasChoices =
-    screen === "ham1" ||
-    screen === "ham2" ||
-    screen === "ham3" ||
-    screen === "ham4";
-  const displayHamsterName =
-    localStorage.getItem(LS_KEYS.hamsterName) || hamsterName;
-  const displayIG = localStorage.getItem(LS_KEYS.playerIG) || playerIG;
+  // ผู้เล่นเก่าที่ยังไม่มี session (เช่นเพิ่งอัปเดตแอป) → เปิด session ด้วย start
+  // start ที่ค้างในคิว = รอ server ตอบ session อยู่ ไม่ต้องส่งซ้ำ
+  useEffect(() => {
+    if (!active || hasSessionFor(active.ig)) return;
+    const waiting = outbox
+      .pendingEvents()
+      .some((e) => e.event === "start" && e.playerIG === active.ig);
+    if (waiting) return;
+    outbox.enqueue({
+      hamsterName: active.hamsterName,
+      playerIG: active.ig,
+      event: "start",
+      team: active.team?.code ?? "",
+    });
+  }, [active]);
 
-  const refreshLeaderboard = async () => {
+  /** manual = กดปุ่ม Refresh เอง (นับใน analytics — รอบ polling ไม่นับ)
+   *  force = ไม่ใช้ board ใน cache (กด Refresh เอง / เพิ่ง feed ไป) */
+  const refreshLeaderboard = async (manual = false, force = manual) => {
     if (refreshingRef.current) return;
     refreshingRef.current = true;
 
     setLbLoading(true);
     setLbError(null);
 
-    const remote = await fetchLeaderboard();
-
-    if (remote.ok && remote.data.length) {
-      setLeaderboard(remote.data.slice(0, 3));
+    const started = Date.now();
+    const range = windowRange(lbWindow);
+    let ok: boolean;
+    if (lbBoard === "teams") {
+      const res = await backend.getTeamTopN(3, range);
+      setTeams(res.data);
+      if (!res.ok) setLbError(res.error || "Unknown error");
+      ok = res.ok;
     } else {
-      const local = getLocalTopN(3);
-      setLeaderboard(local);
-      if (!remote.ok) setLbError(remote.error || "Unknown error");
+      // ใช้ board ก้อนเดียวกับหน้า leaderboard/ยอดของฉัน ไม่ยิง request แยก
+      const remote = await boardCache.top(3, range, { force });
+
+      // ยอดในเครื่องรู้แค่ IG ที่เล่นจากเครื่องนี้ → ใช้เฉพาะตอน server ล่ม
+      localBoardRef.current = !remote.ok;
+      if (remote.ok) {
+        setLeaderboard(remote.data.slice(0, 3));
+      } else {
+        setLeaderboard(getLocalTopN(3, range));
+        setLbError(remote.error || "Unknown error");
+      }
+      ok = remote.ok;
+    }
+
+    if (manual) {
+      analytics.log("leaderboard_refresh", {
+        detail: `${lbBoard}:${lbWindow}`,
+        ok,
+        value: Date.now() - started,
+      });
     }
+    if (!ok) analytics.log("load_failure", { detail: "leaderboard" });
 
     setLbLoading(false);
     refreshingRef.current = false;
   };
 
-  // ออโต้รีเฟรช leaderboard (ไม่ยุ่งกับ myFeedCount)
+  // 🔴 push ผ่าน SSE ถ้า backend รองรับ (ไม่งั้น → polling ข้างล่าง)
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>(
+    backend.liveUrl ? "connecting" : "polling"
+  );
   useEffect(() => {
+    const url = backend.liveUrl?.(
+      streamQuery({ limit: 3, range: windowRange(lbWindow), ig: active?.ig })
+    );
+    if (!url) {
+      setLiveStatus("polling");
+      return;
+    }
+    return connectLive(url, {
+      onStatus: setLiveStatus,
+      onBoard: (rows) => {
+        localBoardRef.current = false;
+        setLeaderboard(mergeIGCaseInsensitive(rows).slice(0, 3));
+        setLbError(null);
+        setLbLoading(false);
+      },
+      onDelta: (row) => setLeaderboard((prev) => applyDelta(prev, row, 3)),
+      onMe: (count) => setMyFeedCount((prev) => Math.max(prev, count)),
+    });
+  }, [lbWindow, active?.ig]);
+
+  // ออโต้รีเฟรช leaderboard (ไม่ยุ่งกับ myFeedCount) — เฉพาะตอนไม่มี push
+  // (stream ส่งแค่อันดับผู้เล่น → แท็บทีม poll เสมอ)
+  useEffect(() => {
+    if (liveStatus !== "polling" && lbBoard === "players") return;
     let timer: number | undefined;
 
     const loop = async () => {
@@ -569,82 +890,259 @@ export default function App() {
       document.removeEventListener("visibilitychange", onVis);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [screen]);
+  }, [liveStatus, lbWindow, lbBoard]);
 
   // 🔹 sync myFeedCount ตาม IG ปัจจุบัน
   //    - ถ้าออนไลน์ → ใช้ค่าจากชีต (รวมทุกวัน / ทุกเครื่อง)
   //    - ถ้าเน็ต/ชีตล่ม → ใช้ค่าจาก localStorage แทน
   useEffect(() => {
-    if (!displayIG) {
+    if (!active) {
       setMyFeedCount(0);
       return;
     }
 
+    // profile ที่เลือกตอนนี้ (สลับเร็ว ๆ แล้วผลเก่ากลับมาทีหลัง → ทิ้ง)
+    let current = true;
+    setMyFeedCount(active.localFeeds);
     (async () => {
-      const backendCount = await fetchMyTotalFeed(displayIG);
+      const backendCount = await boardCache.playerTotal(active.ig);
+      if (!current) return;
       if (backendCount == null) {
-        const localCount = getLocalFeedCountFor(displayIG);
-        setMyFeedCount(localCount);
+        analytics.log("load_failure", { detail: "player_total" });
+        // ยอดของ profile นี้ที่กดจากเครื่องนี้
+        setMyFeedCount(profileStore.active()?.localFeeds ?? 0);
       } else {
         setMyFeedCount(backendCount);
       }
     })();
-  }, [displayIG]);
+    return () => {
+      current = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active?.id, active?.ig]);
 
-  const handleYes = () => {
-    if (displayIG) {
-      const ig = normalizeIG(displayIG);
+  /** ป้อน times ครั้ง (กดปุ่ม = 1, มินิเกม = ตามแต้ม) แล้วไปฉากถัดไปครั้งเดียว */
+  const feedHamster = (times: number, via: "tap" | "minigame") => {
+    audio.play(FEED_SFX);
+    analytics.log("feed", { screen, detail: via, value: times });
+
+    if (active) {
+      const ig = active.ig;
+
+      // ช่วงอีเวนต์ feed ครั้งเดียวได้หลายชิ้น
+      const cookies = live.cookies * times;
 
       // อัปเดตใน localStorage ไว้เป็น backup เวลา offline
-      incLocalFeedCount(ig);
+      incLocalFeedCount(ig, Date.now(), cookies);
+      profileStore.recordFeed(active.id, cookies);
 
-      // ให้เลขเด้งขึ้นทันที 1 ครั้ง
-      setMyFeedCount((prev) => prev + 1);
+      // ให้เลขเด้งขึ้นทันที
+      setMyFeedCount((prev) => prev + cookies);
+      track({ type: "feed", ts: Date.now(), total: myFeedCount + cookies });
 
-      setLeaderboard(getLocalTopN(3));
-      logToSheet({
-        hamsterName: displayHamsterName?.trim(),
-        playerIG: ig,
-        event: "feed",
-      });
+      // กระดานจาก server ไม่ทับด้วยยอดในเครื่อง — live รอ delta, polling รอรีเฟรชข้างล่าง
+      if (liveStatus !== "live" && localBoardRef.current) {
+        setLeaderboard(getLocalTopN(3, windowRange(lbWindow)));
+      }
+      // server นับทีละ feed (rate limit / ตัวคูณต่อครั้ง) → ส่งแยกทีละอัน
+      for (let i = 0; i < times; i++) {
+        outbox.enqueue({
+          hamsterName: active.hamsterName,
+          playerIG: ig,
+          event: "feed",
+          team: active.team?.code,
+          ...(live.cookies > 1 && { cookies: live.cookies }),
+          ...(live.event && { liveEvent: live.event.id }),
+        });
+      }
 
-      // ดึงค่าจริงจากชีตมาตามหลัง
-      setTimeout(() => {
-        (async () => {
-          const remote = await fetchMyTotalFeed(ig);
-          if (remote != null) {
-            setMyFeedCount((prev) => Math.max(prev, remote));
-          }
-          refreshLeaderboard();
-        })();
-      }, 800);
+      // ดึงค่าจริงจากชีตมาตามหลัง (ถ้า live อยู่ server จะ push มาเอง)
+      if (liveStatus !== "live") {
+        setTimeout(() => {
+          (async () => {
+            const remote = await boardCache.playerTotal(ig, { force: true });
+            if (remote != null) {
+              setMyFeedCount((prev) => Math.max(prev, remote));
+            }
+            refreshLeaderboard(false, true);
+          })();
+        }, 800);
+      }
     }
 
-    if (screen === "ham1") return goScreen("ham2");
-    if (screen === "ham2") return goScreen("ham3");
-    if (screen === "ham3") return goScreen("ham4");
-    if (screen === "ham4") return goScreen("ham5");
+    if (active) {
+      let fed = needsStore.apply(active.id, "feed");
+      for (let i = 1; i < times; i++) fed = needsStore.apply(active.id, "feed");
+      if (fed.asleep && !needs?.asleep) track({ type: "asleep", ts: fed.at });
+      setNeeds(fed);
+      const mood = pickMood(scenario, fed);
+      if (mood) return goScreen(mood);
+    }
+    if (node?.feed) return goScreen(node.feed);
   };
 
-  const handleNo = () => goScreen("ham_ag");
+  /* ====== Visit mode: ป้อนแฮมสเตอร์ของเพื่อนจากหน้า /u/@ig ======
+     feed ส่งในชื่อเรา (session/claim ของเรา) + recipientIG = เจ้าของ → ยอดเข้าเจ้าของ
+     ไม่นับยอด/needs/badge ของเราเอง */
+  const visitIG =
+    route.name === "player" && active && route.ig !== active.ig
+      ? route.ig
+      : null;
+  // บอกเจ้าของว่ามีคนมาเยี่ยม — ครั้งเดียวต่อการเปิดหน้า (ref กัน StrictMode ยิงซ้ำ)
+  const visitedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!visitIG || !active) {
+      visitedRef.current = null;
+      return;
+    }
+    if (visitedRef.current === visitIG) return;
+    visitedRef.current = visitIG;
+    outbox.enqueue({
+      hamsterName: active.hamsterName,
+      playerIG: active.ig,
+      event: "visit",
+      recipientIG: visitIG,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visitIG, active?.ig]);
+
+  const giftFeed = (recipientIG: string) => {
+    if (!active || !feedLimiter.tryTake("feed", Date.now())) return 0;
+    audio.play(FEED_SFX);
+    analytics.log("feed", { screen: "visit", detail: "gift", value: 1 });
+    outbox.enqueue({
+      hamsterName: active.hamsterName,
+      playerIG: active.ig,
+      event: "feed",
+      recipientIG,
+      ...(live.cookies > 1 && { cookies: live.cookies }),
+      ...(live.event && { liveEvent: live.event.id }),
+    });
+    return live.cookies;
+  };
+
+  const handleYes = () => {
+    // กันกดรัว/สคริปต์ — เกินเพดานต่อนาทีก็ไม่นับ ไม่เปลี่ยนฉาก
+    if (!feedLimiter.tryTake("feed", Date.now())) return;
+    feedHamster(1, "tap");
+  };
+
+  /* ====== มินิเกมรับคุกกี้ (เครื่องช้า/ลดการเคลื่อนไหว → มีแค่ปุ่ม Feed) ====== */
+  const [miniGameOk, setMiniGameOk] = useState(canPlayMiniGame);
+  const [miniGame, setMiniGame] = useState(false);
+  const [miniGameSlow, setMiniGameSlow] = useState(false);
+  const closeMiniGame = useCallback(() => setMiniGame(false), []);
+  const onMiniGameSlow = useCallback(() => {
+    markSlowDevice();
+    setMiniGameOk(false);
+    setMiniGame(false);
+    setMiniGameSlow(true);
+  }, []);
+  const onMiniGameFinish = (feeds: number) => {
+    setMiniGame(false);
+    // ใช้เพดานเดียวกับปุ่ม Feed — เล่นรัว ๆ ก็ได้ไม่เกินที่เหลือในนาทีนี้
+    const credited = feedLimiter.takeUpTo("feed", Date.now(), feeds);
+    if (credited > 0) feedHamster(credited, "minigame");
+  };
+
+  const handleNo = () => {
+    analytics.log("skip", { screen });
+    if (active) setNeeds(needsStore.apply(active.id, "skip"));
+    if (node?.skip) return goScreen(node.skip);
+  };
+
+  const handleRestart = () => {
+    analytics.log("restart", { screen });
+    goScreen(
+      (active && pickMood(scenario, needsStore.get(active.id))) ||
+        node?.restart ||
+        scenario.start
+    );
+  };
 
   return (
     <>
-      <PlayButtonDock />
+      <AudioDock mobile={isMobile} />
+      <LocaleSwitcher />
+      <ThemeSwitcher />
       <Top3Box
         items={leaderboard}
         loading={lbLoading}
         error={lbError}
-        onRefresh={refreshLeaderboard}
-        mobile={isMobile}
+        onRefresh={() => refreshLeaderboard(true)}
+        pending={pendingSync}
+        live={liveStatus === "live"}
+        window={lbWindow}
+        onWindowChange={setLbWindow}
+        onOpenFull={openFullBoard}
+        board={lbBoard}
+        onBoardChange={setLbBoard}
+        teams={teams}
+        onOpenTeam={setOpenTeam}
+        onOpenPlayer={openPlayer}
+        liveEvent={live}
       />
+      <BadgeToasts queue={toasts} onShown={shiftToast} />
+      {showBadges && active && (
+        <BadgeShelf
+          ig={active.ig}
+          unlocked={achievements.get(active.id).unlocked}
+          onClose={closeBadges}
+        />
+      )}
+      {showReminders && active && (
+        <ReminderSettings profile={active} onClose={closeReminders} />
+      )}
+      {transfer && (
+        <TransferDialog
+          profile={active}
+          mode={transfer.mode}
+          initialText={transfer.text}
+          onImported={onImported}
+          onClose={closeTransfer}
+        />
+      )}
+      {route.name === "leaderboard" && (
+        <LeaderboardPage
+          myIG={displayIG}
+          window={route.window || lbWindow}
+          onOpenPlayer={openPlayer}
+          onClose={router.back}
+        />
+      )}
+      {route.name === "player" && (
+        <PlayerPage
+          ig={route.ig}
+          myIG={active?.ig || ""}
+          image={imageFor(scenario, scenario.start)}
+          onFeed={visitIG ? () => giftFeed(visitIG) : undefined}
+          onPlay={playFromPlayerPage}
+          onClose={router.back}
+        />
+      )}
+      {miniGame && screen !== "onboarding" && (
+        <CookieCatch
+          level={stageOf(scenario, screen)}
+          onFinish={onMiniGameFinish}
+          onCancel={closeMiniGame}
+          onSlow={onMiniGameSlow}
+        />
+      )}
+      {openTeam && (
+        <TeamPage
+          code={openTeam}
+          myIG={displayIG}
+          window={lbWindow}
+          onClose={closeTeam}
+        />
+      )}
 
       <div className="val-container">
-        {screen === "onboarding" && (
+        {screen === "onboarding" && active && (
           <button
             className="back-start"
             onClick={backToGame}
-            aria-label="Back to game"
+            aria-label={t("onboard.back")}
           >
             ←
           </button>
@@ -653,54 +1151,92 @@ export default function App() {
         {screen !== "onboarding" && (
           <>
             {/* 🔵 กล่อง IG (มุมขวาบน) */}
-            <div
-              style={{
-                position: "fixed",
-                top: 10,
-                right: 10,
-                padding: isMobile ? "6px 10px" : "8px 12px",
-                background: "rgba(0,0,0,0.55)",
-                borderRadius: 10,
-                border: "1px solid rgba(255,255,255,0.2)",
-                display: "flex",
-                alignItems: "center",
-                gap: 8,
-                color: "#fff",
-                fontSize: isMobile ? 14 : 15,
-                fontWeight: 600,
-                zIndex: 1000,
-              }}
-            >
-              👫 {normalizeIG(displayIG)}
+            <div className="hud-ig">
+              <ProfileSwitcher
+                profiles={profiles}
+                active={active}
+                onSwitch={switchProfile}
+                onAdd={enterAddProfile}
+              />
               <button
                 className="reset-btn"
                 onClick={enterEditProfile}
-                aria-label="Edit name/IG"
+                aria-label={t("profile.edit")}
               >
                 🍄
               </button>
+              <button
+                className="reset-btn"
+                onClick={() => setShowBadges(true)}
+                aria-label={t("profile.badges")}
+                title={t("profile.badges")}
+              >
+                🏅
+              </button>
+              {active && (
+                <button
+                  className="reset-btn"
+                  onClick={() => setShowReminders(true)}
+                  aria-label={t("reminder.aria")}
+                  title={t("reminder.aria")}
+                >
+                  {reminder.enabled ? "🔔" : "🔕"}
+                </button>
+              )}
+              {active && (
+                <button
+                  className="reset-btn"
+                  onClick={() => openPlayer(active.ig)}
+                  aria-label={t("player.visitors")}
+                  title={t("player.visitors")}
+                >
+                  👋
+                </button>
+              )}
+              {active?.team && (
+                <button
+                  className="reset-btn"
+                  onClick={() => setOpenTeam(active.team?.code || null)}
+                  aria-label={t("team.open")}
+                  title={active.team.name}
+                >
+                  👥
+                </button>
+              )}
+              <button
+                className="reset-btn"
+                onClick={shareCard}
+                disabled={sharing}
+                aria-label={t("profile.share")}
+                title={t("profile.shareShort")}
+              >
+                📤
+              </button>
+              <button
+                className="reset-btn"
+                onClick={() => setTransfer({ mode: "export" })}
+                aria-label={t("profile.transfer")}
+                title={t("profile.transfer")}
+              >
+                💾
+              </button>
             </div>
 
             {/* 🟠 กล่อง Cookie Counter (อยู่ใต้ IG และชิดขวา) */}
-            <div
-              style={{
-                position: "fixed",
-                top: isMobile ? 50 : 54,
-                right: 10,
-                padding: isMobile ? "4px 10px" : "6px 12px",
-                background: "rgba(0,0,0,0.55)",
-                borderRadius: 999,
-                border: "1px solid rgba(255,255,255,0.2)",
-                display: "flex",
-                alignItems: "center",
-                gap: 6,
-                color: "#fff",
-                fontSize: isMobile ? 13 : 14,
-                fontWeight: 700,
-                zIndex: 1000,
-              }}
-            >
-              🍪 <span>{myFeedCount}</span>
+            <div className="hud-cookies">
+              🍪 <span>{n(myFeedCount)}</span>
+              {live.event && (
+                <HudEventTimer event={live.event} cookies={live.cookies} />
+              )}
+              {pendingSync > 0 && (
+                <span
+                  title={t("sync.pending", { count: pendingSync })}
+                  aria-label={t("sync.pending", { count: pendingSync })}
+                  className="hud-pending"
+                >
+                  ⏳
+                </span>
+              )}
             </div>
           </>
         )}
@@ -717,21 +1253,21 @@ export default function App() {
               >
                 <div className="field">
                   <label className="label" htmlFor="hamster-name">
-                    🐹 Hamster&apos;s name
+                    {t("onboard.hamsterName")}
                   </label>
                   <input
                     id="hamster-name"
                     className="input thin"
-                    placeholder="Sample NUNU"
+                    placeholder={t("onboard.hamsterPlaceholder")}
                     value={hamsterName}
                     onChange={(e) => setHamsterName(e.target.value)}
-                    aria-label="Hamster name"
+                    aria-label={t("onboard.hamsterAria")}
                   />
                 </div>
 
                 <div className="field">
                   <label className="label" htmlFor="player-ig">
-                    👫 Your Instagram
+                    {t("onboard.ig")}
                   </label>
                   <input
                     id="player-ig"
@@ -739,24 +1275,92 @@ export default function App() {
                     placeholder="@username"
                     value={playerIGInput}
                     onChange={(e) => setPlayerIGInput(e.target.value)}
-                    aria-label="Player Instagram"
+                    aria-label={t("onboard.igAria")}
                   />
                 </div>
 
+                {formValid && claim.mode !== "mine" && (
+                  <div className="field">
+                    <label className="label" htmlFor="player-pin">
+                      {claim.mode === "link"
+                        ? t("claim.linkPin")
+                        : t("claim.newPin")}
+                    </label>
+                    <input
+                      id="player-pin"
+                      className="input thin pin"
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="off"
+                      maxLength={6}
+                      placeholder="••••"
+                      value={pin}
+                      onChange={(e) =>
+                        setPin(e.target.value.replace(/\D/g, ""))
+                      }
+                      aria-invalid={pinError}
+                    />
+                  </div>
+                )}
+
                 <button
                   className="button primary thin"
                   onClick={startGame}
-                  disabled={!formValid}
+                  disabled={!canStart}
                 >
-                  Start
+                  {claim.mode === "link"
+                    ? linking
+                      ? t("claim.linking")
+                      : t("claim.link")
+                    : t("onboard.start")}
                 </button>
               </div>
 
+              <TeamPicker value={teamDraft} onChange={setTeamDraft} />
+
+              {formValid && (
+                <div
+                  className={`small-text hint claim-hint${pinError ? " error" : ""}`}
+                  role="status"
+                >
+                  {pinError
+                    ? t("claim.wrongPin")
+                    : claim.checking
+                      ? t("claim.checking")
+                      : t(`claim.hint.${claim.mode}`)}
+                </div>
+              )}
+
               {!formValid && (
                 <div className="small-text hint">
-                  Enter your name and Instagram in the format @username
+                  {t("onboard.hint1")}
                   <br />
-                  (letters, numbers, . or _, 1–30 characters).
+                  {t("onboard.hint2")}
+                </div>
+              )}
+
+              {!active && (
+                <div className="profile-actions">
+                  <button
+                    className="button thin"
+                    onClick={() => setTransfer({ mode: "import" })}
+                  >
+                    {t("onboard.restore")}
+                  </button>
+                </div>
+              )}
+
+              {formMode === "edit" && active && (
+                <div className="profile-actions">
+                  <button className="button thin" onClick={enterAddProfile}>
+                    {t("profile.new")}
+                  </button>
+                  <button
+                    className="button thin danger"
+                    onClick={deleteProfile}
+                  >
+                    {t("profile.delete", { ig: active.ig })}
+                  </button>
                 </div>
               )}
             </div>
@@ -767,12 +1371,15 @@ export default function App() {
                 style={{ minHeight: isMobile ? 220 : undefined }}
               >
                 <img
-                  src={IMAGES[screen]}
+                  src={imageFor(scenario, screen)}
                   alt={screen}
                   className={`gif ${imgLoaded ? "loaded" : ""}`}
                   decoding="async"
                   loading="eager"
                   onLoad={() => setImgLoaded(true)}
+                  onError={() =>
+                    analytics.log("load_failure", { screen, detail: "image" })
+                  }
                   style={{
                     maxWidth: "100%",
                     height: "auto",
@@ -787,29 +1394,20 @@ export default function App() {
                 </div>
               </div>
 
-              {screen === "ham1" && (
-                <div className="val-text big-text">
-                  Feed me or fight me 🤤💢
+              {node && (
+                <div className={`val-text${node.big ? " big-text" : ""}`}>
+                  {captionFor(node, locale)
+                    .split("\n")
+                    .map((line, i) => (
+                      <span key={i}>
+                        {i > 0 && <br />}
+                        {line}
+                      </span>
+                    ))}
                 </div>
               )}
-              {screen === "ham2" && (
-                <div className="val-text">Donate 1 cookie pls 😂</div>
-              )}
-              {screen === "ham3" && (
-                <div className="val-text">More now!! 🍪</div>
-              )}
-              {screen === "ham4" && (
-                <div className="val-text">Refill the cookie tank 🍪🥺</div>
-              )}
-              {screen === "ham5" && (
-                <div className="val-text">
-                  Yay! Overdosed on cookies 🐹💤 <br /> Thank you ❤️❤️❤️
-                </div>
-              )}
-              {screen === "ham_ag" && (
-                <div className="val-text">
-                  No cookie...? The killer hamster 😈
-                </div>
+              {needs && scenario.moods && (
+                <NeedsBar needs={needs} mobile={isMobile} />
               )}
 
               <div
@@ -823,26 +1421,40 @@ export default function App() {
                       onClick={handleYes}
                       style={{ padding: isMobile ? "10px 14px" : undefined }}
                     >
-                      Feed
+                      {t("game.feed")}
                     </button>
+                    {miniGameOk && node?.feed && (
+                      <button
+                        className="button minigame-button"
+                        onClick={() => setMiniGame(true)}
+                        style={{ padding: isMobile ? "10px 14px" : undefined }}
+                      >
+                        {t("minigame.play")}
+                      </button>
+                    )}
                     <button
                       className="button no-button"
                       onClick={handleNo}
                       style={{ padding: isMobile ? "10px 14px" : undefined }}
                     >
-                      Skip
+                      {t("game.skip")}
                     </button>
                   </>
                 ) : (
                   <button
                     className="button restart-button"
-                    onClick={() => goScreen("ham1")}
+                    onClick={handleRestart}
                     style={{ padding: isMobile ? "10px 14px" : undefined }}
                   >
-                    Restart
+                    {t("game.restart")}
                   </button>
                 )}
               </div>
+              {miniGameSlow && (
+                <div className="small-text minigame-help">
+                  {t("minigame.slow")}
+                </div>
+              )}
             </>
           )}
         </div>
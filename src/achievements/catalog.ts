@@ -0,0 +1,111 @@
+/* ====== Achievements: รายการ badge + กติกาปลดล็อก ====== */
+
+/** สถิติสะสมต่อ profile ที่กติกาใช้ตัดสิน */
+export type AchievementStats = {
+  /** ยอด feed มากสุดที่เคยเห็น (ชีต หรือ local) */
+  feeds: number;
+  /** วันที่เคย feed (dayKey) เรียงจากเก่าไปใหม่ */
+  feedDays: string[];
+  nightFeeds: number;
+  /** จำนวนครั้งที่ไปถึงแต่ละฉาก */
+  reached: Record<string, number>;
+  fellAsleep: number;
+};
+
+export type Badge = {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+  unlocked: (s: AchievementStats) => boolean;
+};
+
+/** ชั่วโมงที่นับว่า "ดึก" (ตามเวลาเครื่อง) */
+export const NIGHT_HOURS = [0, 1, 2, 3, 4];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** streak ยาวสุดจาก dayKey ที่เรียงแล้ว */
+export function longestStreak(days: string[]) {
+  let best = 0;
+  let run = 0;
+  let prev = NaN;
+  for (const d of days) {
+    const t = Date.parse(`${d}T00:00:00`);
+    // ±2 ชม. กันวันที่เปลี่ยน daylight saving
+    run = Math.abs(t - prev - DAY_MS) < 2 * 60 * 60 * 1000 ? run + 1 : 1;
+    best = Math.max(best, run);
+    prev = t;
+  }
+  return best;
+}
+
+const feeds = (n: number) => (s: AchievementStats) => s.feeds >= n;
+
+export const BADGES: Badge[] = [
+  {
+    id: "first_feed",
+    icon: "🍪",
+    title: "First cookie",
+    description: "Feed your hamster for the first time",
+    unlocked: feeds(1),
+  },
+  {
+    id: "cookies_10",
+    icon: "🥉",
+    title: "Snack dealer",
+    description: "10 cookies fed",
+    unlocked: feeds(10),
+  },
+  {
+    id: "cookies_100",
+    icon: "🥈",
+    title: "Cookie jar",
+    description: "100 cookies fed",
+    unlocked: feeds(100),
+  },
+  {
+    id: "cookies_1000",
+    icon: "🥇",
+    title: "Cookie factory",
+    description: "1,000 cookies fed",
+    unlocked: feeds(1000),
+  },
+  {
+    id: "streak_7",
+    icon: "📅",
+    title: "Weekly regular",
+    description: "Feed on 7 days in a row",
+    unlocked: (s) => longestStreak(s.feedDays) >= 7,
+  },
+  {
+    id: "night_owl",
+    icon: "🦉",
+    title: "Night owl",
+    description: "Feed between midnight and 5 am",
+    unlocked: (s) => s.nightFeeds >= 1,
+  },
+  {
+    id: "overdose",
+    icon: "🐹",
+    title: "Food coma",
+    description: "Reach the overdosed-on-cookies ending",
+    unlocked: (s) => (s.reached.ham5 || 0) >= 1,
+  },
+  {
+    id: "killer_10",
+    icon: "😈",
+    title: "Living dangerously",
+    description: "Meet the killer hamster 10 times",
+    unlocked: (s) => (s.reached.ham_ag || 0) >= 10,
+  },
+  {
+    id: "sweet_dreams",
+    icon: "💤",
+    title: "Sweet dreams",
+    description: "Play until your hamster falls asleep",
+    unlocked: (s) => s.fellAsleep >= 1,
+  },
+];
+
+export const badgeById = (id: string) => BADGES.find((b) => b.id === id);
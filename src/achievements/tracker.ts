@@ -0,0 +1,157 @@
+import { dayKey } from "../backend/windows";
+import {
+  appStorage,
+  defineKey,
+  isObject,
+  recordOf,
+  type AppStorage,
+} from "../storage";
+import {
+  BADGES,
+  NIGHT_HOURS,
+  type AchievementStats,
+  type Badge,
+} from "./catalog";
+
+/* ====== เก็บสถิติ + badge ที่ปลดล็อกแล้ว แยกตาม profile ====== */
+
+export type AchievementRecord = {
+  stats: AchievementStats;
+  /** badge id → เวลาที่ปลดล็อก */
+  unlocked: Record<string, number>;
+};
+
+/** สิ่งที่เกิดขึ้นในเกมที่มีผลกับ achievement */
+export type GameHappening =
+  | { type: "feed"; ts: number; total: number }
+  | { type: "reach"; node: string; ts: number }
+  | { type: "asleep"; ts: number }
+  | { type: "total"; total: number; ts: number };
+
+const emptyRecord = (): AchievementRecord => ({
+  stats: { feeds: 0, feedDays: [], nightFeeds: 0, reached: {}, fellAsleep: 0 },
+  unlocked: {},
+});
+
+/** สถิติที่ขาด field (เวอร์ชันเก่า/พังบางส่วน) → เติมค่าเริ่มต้น */
+export const checkRecord = (raw: unknown): AchievementRecord | undefined => {
+  if (!isObject(raw) || !isObject(raw.stats)) return undefined;
+  const base = emptyRecord();
+  const s = raw.stats;
+  return {
+    stats: {
+      feeds: Number(s.feeds) || 0,
+      feedDays: Array.isArray(s.feedDays)
+        ? s.feedDays.filter((d): d is string => typeof d === "string")
+        : [],
+      nightFeeds: Number(s.nightFeeds) || 0,
+      reached: isObject(s.reached)
+        ? (s.reached as Record<string, number>)
+        : base.stats.reached,
+      fellAsleep: Number(s.fellAsleep) || 0,
+    },
+    unlocked: isObject(raw.unlocked)
+      ? (raw.unlocked as Record<string, number>)
+      : base.unlocked,
+  };
+};
+
+export const ACHIEVEMENTS_KEY = defineKey<Record<string, AchievementRecord>>(
+  "achievements",
+  () => ({}),
+  recordOf(checkRecord)
+);
+
+export function createAchievementTracker(
+  storage: AppStorage = appStorage,
+  catalog: Badge[] = BADGES
+) {
+  const readAll = () => storage.read(ACHIEVEMENTS_KEY);
+  const writeAll = (all: Record<string, AchievementRecord>) =>
+    storage.write(ACHIEVEMENTS_KEY, all);
+
+  const update = (profileId: string, stats: AchievementStats) => {
+    const all = readAll();
+    const rec = all[profileId] || emptyRecord();
+    const fresh = catalog.filter(
+      (b) => !rec.unlocked[b.id] && b.unlocked(stats)
+    );
+    const now = Date.now();
+    for (const b of fresh) rec.unlocked[b.id] = now;
+    all[profileId] = { stats, unlocked: rec.unlocked };
+    writeAll(all);
+    return fresh;
+  };
+
+  return {
+    get(profileId: string): AchievementRecord {
+      return readAll()[profileId] || emptyRecord();
+    },
+
+    /** อัปเดตสถิติแล้วคืน badge ที่เพิ่งปลดล็อกรอบนี้ */
+    record(profileId: string, h: GameHappening): Badge[] {
+      const s = structuredClone(this.get(profileId).stats);
+      switch (h.type) {
+        case "feed": {
+          s.feeds = Math.max(s.feeds + 1, h.total);
+          const day = dayKey(h.ts);
+          if (s.feedDays[s.feedDays.length - 1] !== day) s.feedDays.push(day);
+          if (NIGHT_HOURS.includes(new Date(h.ts).getHours())) s.nightFeeds++;
+          break;
+        }
+        case "total":
+          s.feeds = Math.max(s.feeds, h.total);
+          break;
+        case "reach":
+          s.reached[h.node] = (s.reached[h.node] || 0) + 1;
+          break;
+        case "asleep":
+          s.fellAsleep++;
+          break;
+      }
+      return update(profileId, s);
+    },
+
+    /** รวม badge ที่ได้จาก server (เครื่องอื่น) — ไม่ต้องโชว์ toast */
+    mergeRemote(profileId: string, badgeIds: string[]) {
+      const all = readAll();
+      const rec = all[profileId] || emptyRecord();
+      for (const id of badgeIds) rec.unlocked[id] ||= Date.now();
+      all[profileId] = rec;
+      writeAll(all);
+    },
+
+    /** รวม record จาก backup — badge เก่าสุดชนะ, สถิติเอาค่ามากกว่า */
+    mergeRecord(profileId: string, incoming: AchievementRecord) {
+      const all = readAll();
+      const rec = all[profileId] || emptyRecord();
+      const a = rec.stats;
+      const b = incoming.stats;
+      const reached = { ...a.reached };
+      for (const [node, n] of Object.entries(b.reached))
+        reached[node] = Math.max(reached[node] || 0, n);
+      const unlocked = { ...rec.unlocked };
+      for (const [id, ts] of Object.entries(incoming.unlocked))
+        unlocked[id] = unlocked[id] ? Math.min(unlocked[id], ts) : ts;
+      all[profileId] = {
+        stats: {
+          feeds: Math.max(a.feeds, b.feeds),
+          feedDays: Array.from(new Set([...a.feedDays, ...b.feedDays])).sort(),
+          nightFeeds: Math.max(a.nightFeeds, b.nightFeeds),
+          reached,
+          fellAsleep: Math.max(a.fellAsleep, b.fellAsleep),
+        },
+        unlocked,
+      };
+      writeAll(all);
+    },
+
+    remove(profileId: string) {
+      const all = readAll();
+      delete all[profileId];
+      writeAll(all);
+    },
+  };
+}
+
+export const achievements = createAchievementTracker();
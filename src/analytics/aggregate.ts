@@ -0,0 +1,206 @@
+import type { AnalyticsData, OutboxEvent } from "../backend/types";
+import type { Scenario } from "../scenario/graph";
+
+/* ====== รวม event analytics ดิบ → ตัวเลขบน dashboard ======
+   pure function ล้วน ๆ: ป้อน event จาก backend หรือจาก fixture ก็ได้ผลเหมือนกัน
+*/
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Rate = { count: number; of: number; rate: number };
+
+export type FunnelStep = {
+  screen: string;
+  /** จำนวน session ที่มาถึงฉากนี้ */
+  sessions: number;
+  /** sessions ÷ session ทั้งหมด */
+  reach: number;
+  feeds: number;
+  skips: number;
+  /** session ที่จบ (ปิดไป) ที่ฉากนี้ ÷ session ที่มาถึง */
+  dropOff: number;
+};
+
+export type AnalyticsSummary = {
+  events: number;
+  sessions: number;
+  /** เครื่อง (deviceId) ที่ไม่ซ้ำกัน */
+  players: number;
+  from?: number;
+  to?: number;
+  funnel: FunnelStep[];
+  restarts: number;
+  restartsPerSession: number;
+  sessionMs: { avg: number; median: number };
+  /** กลับมาเล่นวันถัดไป / ภายใน 7 วันหลังวันแรก (นับเฉพาะเครื่องที่เห็นมานานพอ) */
+  retention: { d1: Rate; d7: Rate };
+  /** session ที่เจอ load_failure อย่างน้อยหนึ่งครั้ง */
+  errorSessions: Rate;
+  errors: { detail: string; count: number }[];
+  /** โหลด leaderboard ใหม่: count = ครั้งที่ล้มเหลว, of = ทั้งหมด */
+  refresh: Rate & { avgMs: number };
+};
+
+type Tracked = OutboxEvent & { analytics: AnalyticsData };
+
+const rate = (count: number, of: number): Rate => ({
+  count,
+  of,
+  rate: of ? count / of : 0,
+});
+
+const median = (xs: number[]) => {
+  if (!xs.length) return 0;
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = s.length >> 1;
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+};
+
+/** วันตามเวลาเครื่อง (ไม่ใช่ UTC) — เล่นตีหนึ่งก็นับเป็นวันใหม่ */
+const dayOf = (ts: number) =>
+  Math.floor((ts - new Date(ts).getTimezoneOffset() * 60000) / DAY_MS);
+
+const bump = (m: Map<string, number>, k: string, by = 1) =>
+  m.set(k, (m.get(k) || 0) + by);
+
+/** ลำดับ funnel ของเรื่อง: onboarding → start → ฉากถัดไปทาง Feed เรื่อย ๆ */
+export function funnelOrder(sc: Scenario) {
+  const order = ["onboarding"];
+  for (let k: string | undefined = sc.start; k && !order.includes(k);) {
+    order.push(k);
+    k = sc.nodes[k]?.feed;
+  }
+  return order;
+}
+
+/** retention dN: เครื่องที่เห็นครั้งแรกอย่างน้อย N วันก่อนวันสุดท้ายของข้อมูล
+ *  แล้วกลับมาในวันที่ 1…N (d1 = วันถัดไปพอดี) */
+function retention(days: Map<string, Set<number>>, lastDay: number, n: number) {
+  let of = 0;
+  let count = 0;
+  for (const seen of days.values()) {
+    const first = Math.min(...seen);
+    if (first + n > lastDay) continue;
+    of++;
+    for (let d = 1; d <= n; d++) {
+      if (seen.has(first + d)) {
+        count++;
+        break;
+      }
+    }
+  }
+  return rate(count, of);
+}
+
+export function aggregateAnalytics(
+  events: OutboxEvent[],
+  order: string[] = []
+): AnalyticsSummary {
+  const tracked = events
+    .filter((e): e is Tracked => e.event === "analytics" && !!e.analytics)
+    .sort((a, b) => a.ts - b.ts);
+
+  const spans = new Map<string, { start: number; end: number }>();
+  const lastScreen = new Map<string, string>();
+  const viewed = new Map<string, Set<string>>();
+  const feeds = new Map<string, number>();
+  const skips = new Map<string, number>();
+  const errors = new Map<string, number>();
+  const errorSids = new Set<string>();
+  const days = new Map<string, Set<number>>();
+  let restarts = 0;
+  let refreshes = 0;
+  let refreshFailed = 0;
+  let refreshMs = 0;
+
+  for (const e of tracked) {
+    const a = e.analytics;
+    const span = spans.get(a.sid);
+    if (span) span.end = e.ts;
+    else spans.set(a.sid, { start: e.ts, end: e.ts });
+
+    const who = e.deviceId || e.playerIG || a.sid;
+    if (!days.has(who)) days.set(who, new Set());
+    days.get(who)!.add(dayOf(e.ts));
+
+    switch (a.name) {
+      case "screen_view":
+        if (!a.screen) break;
+        if (!viewed.has(a.screen)) viewed.set(a.screen, new Set());
+        viewed.get(a.screen)!.add(a.sid);
+        lastScreen.set(a.sid, a.screen);
+        break;
+      case "feed":
+        bump(feeds, a.screen || "?", a.value || 1);
+        break;
+      case "skip":
+        bump(skips, a.screen || "?");
+        break;
+      case "restart":
+        restarts++;
+        break;
+      case "leaderboard_refresh":
+        refreshes++;
+        if (a.ok === false) refreshFailed++;
+        refreshMs += a.value || 0;
+        break;
+      case "load_failure":
+        bump(errors, a.detail || "unknown");
+        errorSids.add(a.sid);
+        break;
+    }
+  }
+
+  const sessions = spans.size;
+  const endedAt = new Map<string, number>();
+  for (const s of lastScreen.values()) bump(endedAt, s);
+
+  // ฉากที่ไม่อยู่ในลำดับ (ทางแยก Skip / ฉากจบ) ต่อท้าย เรียงตามคนที่มาถึง
+  const screens = [
+    ...order.filter((s) => viewed.has(s)),
+    ...[...viewed.keys()]
+      .filter((s) => !order.includes(s))
+      .sort((a, b) => viewed.get(b)!.size - viewed.get(a)!.size),
+  ];
+
+  const durations = [...spans.values()].map((s) => s.end - s.start);
+  const lastDay = tracked.length ? dayOf(tracked[tracked.length - 1].ts) : 0;
+
+  return {
+    events: tracked.length,
+    sessions,
+    players: days.size,
+    from: tracked[0]?.ts,
+    to: tracked[tracked.length - 1]?.ts,
+    funnel: screens.map((screen) => {
+      const reached = viewed.get(screen)!.size;
+      return {
+        screen,
+        sessions: reached,
+        reach: sessions ? reached / sessions : 0,
+        feeds: feeds.get(screen) || 0,
+        skips: skips.get(screen) || 0,
+        dropOff: reached ? (endedAt.get(screen) || 0) / reached : 0,
+      };
+    }),
+    restarts,
+    restartsPerSession: sessions ? restarts / sessions : 0,
+    sessionMs: {
+      avg: durations.length
+        ? durations.reduce((s, d) => s + d, 0) / durations.length
+        : 0,
+      median: median(durations),
+    },
+    retention: {
+      d1: retention(days, lastDay, 1),
+      d7: retention(days, lastDay, 7),
+    },
+    errorSessions: rate(errorSids.size, sessions),
+    errors: [...errors]
+      .map(([detail, count]) => ({ detail, count }))
+      .sort((a, b) => b.count - a.count),
+    refresh: {
+      ...rate(refreshFailed, refreshes),
+      avgMs: refreshes ? refreshMs / refreshes : 0,
+    },
+  };
+}
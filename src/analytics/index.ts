@@ -0,0 +1,28 @@
+import { outbox } from "../backend";
+import { analyticsFromJson } from "../backend/merge";
+import type { OutboxEvent } from "../backend/types";
+import { createAnalytics } from "./tracker";
+
+export * from "./aggregate";
+export { createAnalytics, SESSION_IDLE_MS, type Analytics } from "./tracker";
+
+/** ตัวเก็บสถิติของทั้งแอป — ส่งผ่าน outbox เหมือน event อื่น */
+export const analytics = createAnalytics((payload) => outbox.enqueue(payload));
+
+/* ====== event ที่บันทึกไว้ใน ./fixtures/*.json (รูปแบบเดียวกับ GET /analytics) ======
+   ไว้ดู dashboard แบบ offline / ลองปรับสูตรโดยไม่ต้องมี backend
+   dev server เท่านั้น — build จริงตัดทิ้ง (ไม่งั้นไฟล์ fixture ติด bundle + ถูก precache ทุกเครื่อง)
+*/
+type FixtureLoader = () => Promise<unknown>;
+
+const fixtureModules: Record<string, FixtureLoader> = import.meta.env.DEV
+  ? import.meta.glob<unknown>("./fixtures/*.json", { import: "default" })
+  : {};
+
+export const FIXTURES: Record<string, () => Promise<OutboxEvent[]>> =
+  Object.fromEntries(
+    Object.entries(fixtureModules).map(([path, load]) => [
+      path.replace(/^.*\/|\.json$/g, ""),
+      async () => analyticsFromJson(await load()),
+    ])
+  );
@@ -0,0 +1,74 @@
+import { randomHex } from "../anticheat/sign";
+import type {
+  AnalyticsData,
+  AnalyticsName,
+  LogPayload,
+} from "../backend/types";
+import {
+  appStorage,
+  defineKey,
+  isFiniteNumber,
+  shape,
+  type AppStorage,
+} from "../storage";
+
+/* ====== เก็บสถิติการเล่น ======
+   ทุกเรื่องที่เกิดเป็น event "analytics" หนึ่งตัว → เข้า outbox เหมือน feed
+   sid = session ของ analytics: เปิดแอปต่อกัน/ห่างไม่เกิน SESSION_IDLE_MS = session เดิม
+   load_failure ส่งครั้งเดียวต่อ session ต่อชนิด (polling ตอน offline ไม่ท่วมคิว)
+*/
+type AnalyticsSession = { id: string; lastAt: number };
+
+export const SESSION_IDLE_MS = 30 * 60 * 1000;
+
+const SESSION_KEY = defineKey<AnalyticsSession | null>(
+  "analyticsSession",
+  () => null,
+  shape<AnalyticsSession>({
+    id: (v) => typeof v === "string",
+    lastAt: isFiniteNumber,
+  })
+);
+
+export type AnalyticsDetail = Omit<AnalyticsData, "name" | "sid">;
+
+export function createAnalytics(
+  send: (payload: LogPayload) => unknown,
+  storage: AppStorage = appStorage,
+  now: () => number = Date.now
+) {
+  let player: Pick<LogPayload, "playerIG" | "hamsterName"> = {};
+  const failures = new Set<string>();
+
+  /** session ปัจจุบัน (ต่ออายุทุกครั้งที่เรียก) */
+  function sessionId() {
+    const at = now();
+    const s = storage.read(SESSION_KEY);
+    const id = s && at - s.lastAt < SESSION_IDLE_MS ? s.id : randomHex(8);
+    storage.write(SESSION_KEY, { id, lastAt: at });
+    return id;
+  }
+
+  return {
+    sessionId,
+    /** profile ที่เล่นอยู่ — ติดไปกับทุก event (ว่าง = ยังไม่มี profile) */
+    setPlayer(ig?: string, hamsterName?: string) {
+      player = ig ? { playerIG: ig, hamsterName } : {};
+    },
+    log(name: AnalyticsName, detail: AnalyticsDetail = {}) {
+      const sid = sessionId();
+      if (name === "load_failure") {
+        const once = `${sid}|${detail.detail}`;
+        if (failures.has(once)) return;
+        failures.add(once);
+      }
+      void send({
+        event: "analytics",
+        ...player,
+        analytics: { name, sid, ...detail },
+      });
+    },
+  };
+}
+
+export type Analytics = ReturnType<typeof createAnalytics>;
@@ -0,0 +1,104 @@
+import type { LogPayload, OutboxEvent } from "../backend/types";
+import { normalizeIG } from "../lib/ig";
+import {
+  appStorage,
+  defineKey,
+  isFiniteNumber,
+  isObject,
+  recordOf,
+  shape,
+  type AppStorage,
+} from "../storage";
+import { hashPin, randomHex, signEvent } from "./sign";
+
+/* ====== จอง IG (claim) ฝั่ง client ======
+   เครื่องแรกที่จอง IG ได้ device key ลับ → ทุก event ของ IG นั้นต้องมี claimSig
+   เปลี่ยนเครื่อง = ส่ง link พร้อม recovery PIN → server ผูก key ใหม่ให้
+   key ใหม่เป็น pending จนกว่า server ยืนยันว่าเครื่องนี้เป็นเจ้าของ (settleClaim)
+   PIN ผิด / มีคนจองไปแล้ว → ทิ้ง pending, key เดิมที่เคยผูกไว้ยังใช้ได้
+*/
+type PendingKey = { key: string; at: number };
+/** key = key ที่ server ยืนยันแล้ว ("" = ยังไม่มี) */
+type DeviceClaim = PendingKey & { pending?: PendingKey };
+
+const isHex = (v: unknown) => typeof v === "string" && /^[0-9a-f]*$/.test(v);
+
+const CLAIMS_KEY = defineKey<Record<string, DeviceClaim>>(
+  "handleClaims",
+  () => ({}),
+  recordOf(
+    shape<DeviceClaim>({
+      key: isHex,
+      at: isFiniteNumber,
+      pending: (v) =>
+        v === undefined ||
+        (isObject(v) && !!v.key && isHex(v.key) && isFiniteNumber(v.at)),
+    })
+  )
+);
+
+export const isPinValid = (pin: string) => /^\d{4,6}$/.test(pin);
+
+/** device key ที่ server ยืนยันแล้วของ IG นี้บนเครื่องนี้ — null = ยังไม่เคยจอง/ผูก */
+export const deviceKeyFor = (ig: string, storage: AppStorage = appStorage) =>
+  storage.read(CLAIMS_KEY)[normalizeIG(ig)]?.key || null;
+
+/** มี key (ยืนยันแล้ว หรือ claim ที่รอ server อยู่) */
+export const holdsKeyFor = (ig: string, storage: AppStorage = appStorage) => {
+  const c = storage.read(CLAIMS_KEY)[normalizeIG(ig)];
+  return !!(c?.key || c?.pending);
+};
+
+/** server รับ claim/link แล้ว → ผูกสำเร็จ = ใช้ key ที่รออยู่, ไม่สำเร็จ = ทิ้ง */
+export function settleClaim(
+  ig: string,
+  mine: boolean,
+  storage: AppStorage = appStorage
+) {
+  const key = normalizeIG(ig);
+  const c = storage.read(CLAIMS_KEY)[key];
+  if (!c?.pending) return;
+  const { pending, ...rest } = c;
+  storage.update(CLAIMS_KEY, (all) => ({
+    ...all,
+    [key]: mine ? pending : rest,
+  }));
+}
+
+/** payload ของ claim/link — device key ใหม่เก็บเป็น pending ไว้ก่อนส่ง */
+export async function claimPayload(
+  kind: "claim" | "link",
+  ig: string,
+  pin: string,
+  hamsterName?: string,
+  storage: AppStorage = appStorage
+): Promise<LogPayload> {
+  const key = normalizeIG(ig);
+  const claimKey = randomHex(32);
+  storage.update(CLAIMS_KEY, (all) => ({
+    ...all,
+    [key]: {
+      key: all[key]?.key || "",
+      at: all[key]?.at || 0,
+      pending: { key: claimKey, at: Date.now() },
+    },
+  }));
+  return {
+    event: kind,
+    playerIG: key,
+    hamsterName,
+    claimKey,
+    pinHash: await hashPin(key, pin),
+  };
+}
+
+/** ติด claimSig ให้ event ของ IG ที่เครื่องนี้ถือ key — ต้องทำหลัง attachSession
+ *  (ลายเซ็นครอบ sessionId/nonce ด้วย) */
+export async function attachClaim(
+  e: OutboxEvent,
+  storage: AppStorage = appStorage
+): Promise<OutboxEvent> {
+  if (e.event === "claim" || e.event === "link") return e;
+  const key = deviceKeyFor(e.playerIG || "", storage);
+  return key ? { ...e, claimSig: await signEvent(key, e) } : e;
+}
@@ -0,0 +1,210 @@
+import type { IssuedSession, OutboxEvent } from "../backend/types";
+import { isIGValid, normalizeIG } from "../lib/ig";
+import { randomHex, signEvent } from "./sign";
+
+/* ====== กติกา anti-cheat (reference implementation) ======
+   server จริงควรทำตามนี้ทุกข้อ — local backend และ server/mock-server.mjs ทำตามนี้
+   0) start = server สุ่ม session id + key ให้ แล้วตอบกลับไป (client ตั้ง key เองไม่ได้)
+   1) feed ต้องอ้าง session ที่เปิดด้วย start แล้ว และ IG ตรงกับ session
+   2) ลายเซ็น HMAC ต้องถูก (key จากข้อ 0)
+   3) nonce ต้องเพิ่มขึ้นเรื่อย ๆ ต่อ session (กัน replay)
+   4) feed ต่อ IG และต่อ device ไม่เกิน maxFeedsPerMinute — นับตามเวลาที่ server ได้รับ
+      (ts มาจาก client เลื่อน/ตั้งอนาคตได้ → ใช้นับ rate ไม่ได้)
+   5) feed ได้คุกกี้ไม่เกินที่อีเวนต์ ณ เวลานั้นให้ (cookiesAt)
+   6) IG ที่ถูก claim แล้ว: ทุก event ต้องมี claimSig จาก device key ของเครื่องที่ผูกไว้
+      link (ผูกเครื่องใหม่) ต้องมี PIN ถูก — ผิดเกิน MAX_PIN_FAILURES ครั้ง/ชม. = ล็อก
+   7) visit / feed ให้เพื่อน: recipientIG ต้องเป็น IG ที่ใช้ได้ และไม่ใช่ตัวเอง
+      (session/claim/rate limit ตรวจกับคนให้ = playerIG ตามปกติ)
+*/
+
+export type FlagReason =
+  | "no_session"
+  | "session_mismatch"
+  | "bad_signature"
+  | "replayed_nonce"
+  | "rate_limited"
+  | "claim_taken"
+  | "not_owner"
+  | "bad_pin"
+  | "pin_locked"
+  | "bad_cookies"
+  | "bad_recipient";
+
+/** start ที่ผ่าน → session ที่ต้องตอบกลับให้ client */
+export type Verdict =
+  { ok: true; session?: IssuedSession } | { ok: false; reason: FlagReason };
+
+export const MAX_FEEDS_PER_MINUTE = 30;
+export const MIN_FEED_GAP_MS = 350;
+
+export const MAX_PIN_FAILURES = 5;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/** sliding window: เก็บเวลาที่ผ่านไว้ต่อ key */
+export function createRateLimiter(opts: {
+  perMinute: number;
+  minGapMs?: number;
+}) {
+  const hits = new Map<string, number[]>();
+  return {
+    /** true = ผ่าน (และนับครั้งนี้แล้ว) */
+    tryTake(key: string, at: number) {
+      const recent = (hits.get(key) || []).filter((t) => at - t < MINUTE_MS);
+      const last = recent[recent.length - 1];
+      const tooSoon = last != null && at - last < (opts.minGapMs || 0);
+      if (tooSoon || recent.length >= opts.perMinute) {
+        hits.set(key, recent);
+        return false;
+      }
+      recent.push(at);
+      hits.set(key, recent);
+      return true;
+    },
+    /** ขอหลายครั้งในทีเดียว (เช่นผลมินิเกม) — คืนจำนวนที่ผ่าน ไม่เกินที่เหลือในนาทีนี้ */
+    takeUpTo(key: string, at: number, count: number) {
+      const recent = (hits.get(key) || []).filter((t) => at - t < MINUTE_MS);
+      const granted = Math.max(
+        0,
+        Math.min(Math.floor(count), opts.perMinute - recent.length)
+      );
+      for (let i = 0; i < granted; i++) recent.push(at);
+      hits.set(key, recent);
+      return granted;
+    },
+  };
+}
+
+type SessionInfo = { key: string; ig: string; nonce: number };
+
+type ClaimInfo = {
+  pinHash?: string;
+  /** deviceId → device key */
+  keys: Map<string, string>;
+  /** เวลาที่ใส่ PIN ผิด */
+  failures: number[];
+};
+
+/** issued = session ที่เคยออกให้ start นี้แล้ว (โหลด event เก่าซ้ำ) — ไม่ใส่ = สุ่มใหม่
+ *  receivedAt = เวลาที่ server ได้รับ event (โหลดซ้ำใช้ค่าที่เก็บไว้) — ไม่ใส่ = ตอนนี้ */
+export type CheckContext = { issued?: IssuedSession; receivedAt?: number };
+
+export function createEventValidator(
+  opts: {
+    maxFeedsPerMinute?: number;
+    /** คุกกี้ต่อ feed ที่อนุญาต ณ เวลานั้น (ไม่ใส่ = 1 เสมอ) */
+    cookiesAt?: (ts: number) => number;
+    now?: () => number;
+  } = {}
+) {
+  const now = opts.now ?? Date.now;
+  const sessions = new Map<string, SessionInfo>();
+  const claims = new Map<string, ClaimInfo>();
+
+  /** claim / link — ไม่ต้องมี session, พิสูจน์ด้วย PIN แทน */
+  const checkClaim = (e: OutboxEvent, ig: string, at: number): Verdict => {
+    const c = claims.get(ig);
+    const device = e.deviceId || "?";
+    if (!e.claimKey) return { ok: false, reason: "bad_signature" };
+    if (e.event === "claim") {
+      if (c) return { ok: false, reason: "claim_taken" };
+      claims.set(ig, {
+        pinHash: e.pinHash,
+        keys: new Map([[device, e.claimKey]]),
+        failures: [],
+      });
+      return { ok: true };
+    }
+    // link
+    if (!c) return { ok: false, reason: "bad_pin" };
+    c.failures = c.failures.filter((t) => at - t < HOUR_MS);
+    if (c.failures.length >= MAX_PIN_FAILURES) {
+      return { ok: false, reason: "pin_locked" };
+    }
+    if (!c.pinHash || e.pinHash !== c.pinHash) {
+      c.failures.push(at);
+      return { ok: false, reason: "bad_pin" };
+    }
+    c.keys.set(device, e.claimKey);
+    return { ok: true };
+  };
+
+  /** IG ที่มีเจ้าของ → ต้องเซ็นด้วย key ของเครื่องที่ผูกไว้ */
+  const checkOwner = async (e: OutboxEvent, ig: string): Promise<Verdict> => {
+    const c = claims.get(ig);
+    if (!c) return { ok: true };
+    const key = c.keys.get(e.deviceId || "?");
+    if (!key || !e.claimSig || e.claimSig !== (await signEvent(key, e))) {
+      return { ok: false, reason: "not_owner" };
+    }
+    return { ok: true };
+  };
+  const limiter = createRateLimiter({
+    perMinute: opts.maxFeedsPerMinute ?? MAX_FEEDS_PER_MINUTE,
+  });
+
+  return {
+    async check(e: OutboxEvent, ctx: CheckContext = {}): Promise<Verdict> {
+      const ig = normalizeIG(e.playerIG || "");
+      const at = ctx.receivedAt ?? now();
+      if (e.event === "claim" || e.event === "link") {
+        return checkClaim(e, ig, at);
+      }
+      // สถิติการเล่นไม่มีผลกับอันดับ — ไม่ต้องมี session (เช่นหน้า onboarding)
+      if (e.event === "analytics") return { ok: true };
+
+      if (e.event === "visit" || e.recipientIG != null) {
+        const to = normalizeIG(e.recipientIG || "");
+        if (!isIGValid(to) || to === ig) {
+          return { ok: false, reason: "bad_recipient" };
+        }
+      }
+
+      const owner = await checkOwner(e, ig);
+      if (!owner.ok) return owner;
+
+      if (e.event === "start") {
+        // start = เปิด session ใหม่ — id/key มาจากฝั่งนี้เสมอ
+        const session = ctx.issued || {
+          id: randomHex(16),
+          key: randomHex(32),
+        };
+        sessions.set(session.id, { key: session.key, ig, nonce: -1 });
+        return { ok: true, session };
+      }
+
+      const s = e.sessionId ? sessions.get(e.sessionId) : undefined;
+      if (!s) return { ok: false, reason: "no_session" };
+      if (s.ig !== ig) {
+        return { ok: false, reason: "session_mismatch" };
+      }
+      if (!e.sig || e.sig !== (await signEvent(s.key, e))) {
+        return { ok: false, reason: "bad_signature" };
+      }
+      if (e.nonce == null || e.nonce <= s.nonce) {
+        return { ok: false, reason: "replayed_nonce" };
+      }
+      s.nonce = e.nonce;
+
+      if (e.event === "feed") {
+        const allowed = opts.cookiesAt?.(e.ts) ?? 1;
+        const cookies = e.cookies ?? 1;
+        if (!Number.isInteger(cookies) || cookies < 1 || cookies > allowed) {
+          return { ok: false, reason: "bad_cookies" };
+        }
+        const byIG = limiter.tryTake(`ig:${s.ig}`, at);
+        const byDevice = limiter.tryTake(`dev:${e.deviceId || "?"}`, at);
+        if (!byIG || !byDevice) return { ok: false, reason: "rate_limited" };
+      }
+      return { ok: true };
+    },
+
+    claimStatus(ig: string, deviceId: string) {
+      const c = claims.get(normalizeIG(ig));
+      return { claimed: !!c, mine: !!c?.keys.has(deviceId) };
+    },
+  };
+}
+
+export type EventValidator = ReturnType<typeof createEventValidator>;
@@ -0,0 +1,83 @@
+import type { EventReceipt, OutboxEvent } from "../backend/types";
+import { normalizeIG } from "../lib/ig";
+import {
+  appStorage,
+  defineKey,
+  isFiniteNumber,
+  shape,
+  str,
+  type AppStorage,
+} from "../storage";
+import { randomHex, signEvent } from "./sign";
+
+/* ====== Play session ฝั่ง client ======
+   start ไม่มี key — server สุ่ม session ให้แล้วตอบกลับมา (acceptSession)
+   event ถัดไปเซ็นด้วย key นั้นตอนจะส่ง (outbox เซ็นตามลำดับคิว)
+*/
+type PlaySession = { id: string; key: string; ig: string; nonce: number };
+
+const isText = (v: unknown) => typeof v === "string";
+
+const SESSION_KEY = defineKey<PlaySession | null>(
+  "playSession",
+  () => null,
+  shape<PlaySession>({
+    id: isText,
+    key: isText,
+    ig: isText,
+    nonce: isFiniteNumber,
+  })
+);
+const DEVICE_KEY = defineKey("deviceId", () => "", str, { text: true });
+
+export function getDeviceId(storage: AppStorage = appStorage) {
+  let id = storage.read(DEVICE_KEY);
+  if (!id) {
+    id = randomHex(16);
+    storage.write(DEVICE_KEY, id);
+  }
+  return id;
+}
+
+const readSession = (storage: AppStorage) => storage.read(SESSION_KEY);
+
+/** มี session ของ IG นี้อยู่แล้วไหม (ไม่มี = ต้องส่ง start ก่อน feed) */
+export const hasSessionFor = (ig: string, storage: AppStorage = appStorage) =>
+  readSession(storage)?.ig === normalizeIG(ig);
+
+/** ติด deviceId/sessionId/nonce/sig ให้ event ก่อนส่ง — start ไม่ต้องเซ็น */
+export async function attachSession(
+  e: OutboxEvent,
+  storage: AppStorage = appStorage
+): Promise<OutboxEvent> {
+  const deviceId = getDeviceId(storage);
+  const session = readSession(storage);
+  if (e.event === "start" || !session) return { ...e, deviceId };
+
+  session.nonce += 1;
+  storage.write(SESSION_KEY, session);
+  const signed = {
+    ...e,
+    deviceId,
+    sessionId: session.id,
+    nonce: session.nonce,
+  };
+  return { ...signed, sig: await signEvent(session.key, signed) };
+}
+
+/** server ตอบ start → เก็บ session ไว้เซ็น event ถัดไป */
+export function acceptSession(
+  e: OutboxEvent,
+  receipt: EventReceipt,
+  storage: AppStorage = appStorage
+) {
+  if (e.event !== "start" || !receipt.session) return;
+  const current = readSession(storage);
+  // ตอบ start เดิมซ้ำ (ส่งซ้ำหลัง timeout) → nonce นับต่อ
+  if (current?.id === receipt.session.id) return;
+  storage.write(SESSION_KEY, {
+    ...receipt.session,
+    ig: normalizeIG(e.playerIG || ""),
+    nonce: 0,
+  });
+}
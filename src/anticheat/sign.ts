@@ -0,0 +1,65 @@
+import type { OutboxEvent } from "../backend/types";
+
+/* ====== HMAC-SHA256 ของ event (WebCrypto — ใช้ได้ทั้ง browser และ Node) ====== */
+
+const toHex = (buf: ArrayBuffer) =>
+  Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, "0")).join(
+    ""
+  );
+
+export const randomHex = (bytes = 32) =>
+  toHex(crypto.getRandomValues(new Uint8Array(bytes)).buffer);
+
+/** ข้อความที่เซ็น — เปลี่ยนลำดับ field ไม่ได้ ไม่งั้น server verify ไม่ผ่าน
+ *  ต้องครอบทุก field ที่ server ใช้นับ/ตัดสิน (แก้ field ที่ไม่ได้เซ็นแล้ว sig ยังผ่าน = โกงได้)
+ *  JSON array แทน join("|") — ชื่อแฮมสเตอร์มี "|" ได้ ต่อกันแล้วต้องไม่กำกวม */
+export const canonicalEvent = (e: OutboxEvent) =>
+  JSON.stringify([
+    e.id,
+    e.ts,
+    e.event,
+    e.playerIG || "",
+    e.sessionId || "",
+    e.nonce ?? "",
+    e.deviceId || "",
+    e.hamsterName || "",
+    e.cookies ?? "",
+    e.liveEvent || "",
+    e.recipientIG || "",
+    e.team ?? "",
+    e.teamName || "",
+    e.badge || "",
+    e.ref || "",
+  ]);
+
+export async function hmacHex(keyHex: string, message: string) {
+  const keyBytes = new Uint8Array(
+    (keyHex.match(/../g) || []).map((h) => parseInt(h, 16))
+  );
+  const key = await crypto.subtle.importKey(
+    "raw",
+    keyBytes,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const sig = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(message)
+  );
+  return toHex(sig);
+}
+
+export const signEvent = (keyHex: string, e: OutboxEvent) =>
+  hmacHex(keyHex, canonicalEvent(e));
+
+export async function sha256Hex(message: string) {
+  return toHex(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(message))
+  );
+}
+
+/** PIN ไม่ส่งตรง ๆ — ผสม IG กัน hash ซ้ำกันข้าม IG */
+export const hashPin = (ig: string, pin: string) =>
+  sha256Hex(`hamham-pin|${ig}|${pin}`);
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+
+import { backend, outbox } from "../backend";
+import type { ClaimStatus } from "../backend/types";
+import { isIGValid, normalizeIG } from "../lib/ig";
+import { claimPayload, holdsKeyFor } from "./claim";
+import { getDeviceId } from "./session";
+
+/* ====== Hook: สถานะการจอง IG ที่กำลังพิมพ์ในฟอร์ม ======
+   mode:
+   - "mine"  = เครื่องนี้ถือ key อยู่แล้ว → เล่นได้เลย
+   - "claim" = ยังไม่มีใครจอง (หรือเช็กไม่ได้) → ต้องตั้ง PIN
+   - "link"  = คนอื่นจองแล้ว → ต้องใส่ PIN เพื่อผูกเครื่องนี้
+*/
+export type ClaimMode = "mine" | "claim" | "link";
+
+const CHECK_DELAY_MS = 400;
+const LINK_WAIT_MS = 5000;
+
+export function useClaim(ig: string) {
+  const key = normalizeIG(ig);
+  const valid = isIGValid(key);
+  const [status, setStatus] = useState<ClaimStatus | null>(null);
+  const [checking, setChecking] = useState(false);
+  // เปลี่ยนเมื่อผูก/จองสำเร็จ → เช็กใหม่
+  const [round, setRound] = useState(0);
+
+  useEffect(() => {
+    setStatus(null);
+    if (!valid) return;
+    let alive = true;
+    setChecking(true);
+    const timer = window.setTimeout(async () => {
+      const s = await backend.getClaim(key, getDeviceId());
+      if (!alive) return;
+      setStatus(s);
+      setChecking(false);
+    }, CHECK_DELAY_MS);
+    return () => {
+      alive = false;
+      window.clearTimeout(timer);
+      setChecking(false);
+    };
+  }, [key, valid, round]);
+
+  const hasKey = valid && holdsKeyFor(key);
+  // claim ที่ยังค้างใน outbox: server ยังไม่รู้ แต่เครื่องนี้ถือ key แล้ว
+  const mode: ClaimMode = status?.claimed
+    ? status.mine
+      ? "mine"
+      : "link"
+    : hasKey
+      ? "mine"
+      : "claim";
+
+  return { status, checking, mode, recheck: () => setRound((r) => r + 1) };
+}
+
+/** ส่ง link แล้วรอให้ server รับ — true = PIN ถูก เครื่องนี้ผูกแล้ว */
+export async function linkDevice(ig: string, pin: string) {
+  const sent = await outbox.enqueue(await claimPayload("link", ig, pin));
+  const until = Date.now() + LINK_WAIT_MS;
+  while (
+    outbox.pendingEvents().some((e) => e.id === sent.id) &&
+    Date.now() < until
+  ) {
+    await outbox.flush(true);
+    await new Promise((r) => window.setTimeout(r, 250));
+  }
+  const status = await backend.getClaim(ig, getDeviceId());
+  return !!status?.mine;
+}
@@ -0,0 +1,185 @@
+/* ====== Audio engine (Web Audio API) ======
+   - BGM วนลูป + SFX ผ่าน gain ตัวเดียว (mute/volume มีผลทั้งหมด)
+   - เบราว์เซอร์ห้าม autoplay → สร้าง AudioContext ตอนแตะ/กดคีย์ครั้งแรก
+   - mute/volume เก็บใน localStorage (sync ข้ามแท็บ)
+   - เลื่อน volume ลง 0 = mute แต่จำ volume ล่าสุดที่ไม่ใช่ 0 ไว้ → กดเปิดเสียงแล้วดังเท่าเดิม
+*/
+import { appStorage, defineKey, isObject, type AppStorage } from "../storage";
+
+export type AudioSettings = {
+  muted: boolean;
+  /** 0..1 — ระดับล่าสุดที่ไม่ใช่ 0 (0 เฉพาะค่าเก่าที่เคยเก็บไว้) */
+  volume: number;
+};
+
+const DEFAULT_SETTINGS: AudioSettings = { muted: false, volume: 0.6 };
+/** BGM เบากว่า SFX หน่อย */
+const BGM_GAIN = 0.5;
+const UNLOCK_EVENTS = ["pointerdown", "keydown", "touchend"] as const;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+/** เปิดเสียงตอน volume ที่จำไว้เป็น 0 (ค่าเก่า) → กลับไปใช้ค่า default ไม่งั้นเปิดแล้วก็ยังเงียบ */
+const unmuted = (s: AudioSettings): AudioSettings =>
+  !s.muted && s.volume === 0 ? { ...s, volume: DEFAULT_SETTINGS.volume } : s;
+
+export const AUDIO_KEY = defineKey<AudioSettings>(
+  "audioSettings",
+  () => DEFAULT_SETTINGS,
+  (raw) =>
+    isObject(raw)
+      ? {
+          muted: !!raw.muted,
+          volume: clamp01(Number(raw.volume ?? DEFAULT_SETTINGS.volume) || 0),
+        }
+      : undefined
+);
+
+type Ctx = {
+  ctx: AudioContext;
+  master: GainNode;
+  bgmGain: GainNode;
+};
+
+export function createAudioEngine(
+  sounds: Record<string, string>,
+  opts: { storage?: AppStorage; bgm?: string } = {}
+) {
+  const storage = opts.storage ?? appStorage;
+  const listeners = new Set<() => void>();
+
+  let settings = storage.read(AUDIO_KEY);
+  let audio: Ctx | null = null;
+  let bgmSource: AudioBufferSourceNode | null = null;
+  const buffers = new Map<string, Promise<AudioBuffer | null>>();
+
+  const notify = () => listeners.forEach((l) => l());
+
+  const load = (name: string) => {
+    const url = sounds[name];
+    if (!audio || !url) return Promise.resolve(null);
+    let p = buffers.get(name);
+    if (!p) {
+      const { ctx } = audio;
+      p = fetch(url)
+        .then((r) => r.arrayBuffer())
+        .then((buf) => ctx.decodeAudioData(buf))
+        .catch((e) => {
+          console.warn(`audio "${name}" failed to load`, e);
+          return null;
+        });
+      buffers.set(name, p);
+    }
+    return p;
+  };
+
+  const applyGain = () => {
+    if (!audio) return;
+    const { ctx, master } = audio;
+    master.gain.setValueAtTime(
+      settings.muted ? 0 : settings.volume,
+      ctx.currentTime
+    );
+    // mute = พักทั้ง context (ไม่เปลืองแบต); ถ้าแท็บซ่อนอยู่ก็ยังไม่ต้องเล่น
+    // context ถูกปิดไปแล้ว/เบราว์เซอร์ไม่ยอม → reject ได้ ไม่ต้องพังทั้งแอป
+    const next =
+      settings.muted || document.hidden ? ctx.suspend() : ctx.resume();
+    next.catch((e) => console.warn("audio: suspend/resume failed", e));
+  };
+
+  const startBgm = async () => {
+    if (!audio || bgmSource || !opts.bgm) return;
+    const buf = await load(opts.bgm);
+    if (!buf || !audio || bgmSource) return;
+    const src = audio.ctx.createBufferSource();
+    src.buffer = buf;
+    src.loop = true;
+    src.connect(audio.bgmGain);
+    src.start();
+    bgmSource = src;
+  };
+
+  /** ต้องเรียกจาก user gesture (แตะ/คลิก/กดคีย์) */
+  const unlock = () => {
+    if (audio) return;
+    const AC =
+      window.AudioContext ||
+      (window as unknown as { webkitAudioContext?: typeof AudioContext })
+        .webkitAudioContext;
+    if (!AC) return;
+    const ctx = new AC();
+    const master = ctx.createGain();
+    master.connect(ctx.destination);
+    const bgmGain = ctx.createGain();
+    bgmGain.gain.value = BGM_GAIN;
+    bgmGain.connect(master);
+    audio = { ctx, master, bgmGain };
+    applyGain();
+    startBgm();
+    notify();
+  };
+
+  const save = (next: AudioSettings) => {
+    settings = next;
+    storage.write(AUDIO_KEY, next);
+    applyGain();
+    notify();
+  };
+
+  return {
+    getSettings: () => settings,
+    /** true หลังผู้เล่นแตะจอครั้งแรก (ก่อนหน้านั้นเบราว์เซอร์ไม่ให้เล่น) */
+    isUnlocked: () => audio !== null,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /** เล่น SFX ครั้งเดียว — ยังไม่ unlock / mute / ไม่มีไฟล์ = เงียบ */
+    async play(name: string) {
+      if (!audio || settings.muted) return;
+      const buf = await load(name);
+      if (!buf || !audio) return;
+      const src = audio.ctx.createBufferSource();
+      src.buffer = buf;
+      src.connect(audio.master);
+      src.start();
+    },
+
+    setVolume(volume: number) {
+      const v = clamp01(volume);
+      save(v > 0 ? { muted: false, volume: v } : { ...settings, muted: true });
+    },
+    setMuted(muted: boolean) {
+      save(unmuted({ ...settings, muted }));
+    },
+    toggleMute() {
+      save(unmuted({ ...settings, muted: !settings.muted }));
+    },
+
+    /** ผูก listener (แตะครั้งแรก / ซ่อนแท็บ / แท็บอื่นเปลี่ยนค่า) — คืนฟังก์ชันถอด */
+    start() {
+      const onFirst = () => {
+        unlock();
+        UNLOCK_EVENTS.forEach((e) => window.removeEventListener(e, onFirst));
+      };
+      UNLOCK_EVENTS.forEach((e) =>
+        window.addEventListener(e, onFirst, { passive: true })
+      );
+      const onVis = () => applyGain();
+      document.addEventListener("visibilitychange", onVis);
+      const unwatch = storage.watch(AUDIO_KEY, () => {
+        settings = storage.read(AUDIO_KEY);
+        applyGain();
+        notify();
+      });
+      return () => {
+        UNLOCK_EVENTS.forEach((e) => window.removeEventListener(e, onFirst));
+        document.removeEventListener("visibilitychange", onVis);
+        unwatch();
+      };
+    },
+  };
+}
@@ -0,0 +1,7 @@
+import { createAudioEngine } from "./engine";
+import { BGM, SOUNDS } from "./sounds";
+
+export * from "./engine";
+export { BGM, FEED_SFX, SOUNDS } from "./sounds";
+
+export const audio = createAudioEngine(SOUNDS, { bgm: BGM });
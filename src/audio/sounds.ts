@@ -0,0 +1,17 @@
+/* ====== ไฟล์เสียงทุกไฟล์ใน src/assets/audio → key = ชื่อไฟล์ (bgm, munch, laugh) ====== */
+const soundModules = import.meta.glob<string>("../assets/audio/*.wav", {
+  eager: true,
+  import: "default",
+});
+
+export const SOUNDS: Record<string, string> = Object.fromEntries(
+  Object.entries(soundModules).map(([path, url]) => [
+    path.replace(/^.*\/|\.wav$/g, ""),
+    url,
+  ])
+);
+
+/** เพลงวนตอนเล่น */
+export const BGM = "bgm";
+/** เสียงกด Feed */
+export const FEED_SFX = "munch";
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+
+import { audio } from ".";
+
+/* ====== Hook: ค่า mute/volume ปัจจุบัน ====== */
+export function useAudioSettings() {
+  return useSyncExternalStore(audio.subscribe, audio.getSettings);
+}
@@ -0,0 +1,158 @@
+import { errorMessage, fetchWithTimeout, jsonp, readJson } from "../lib/http";
+import { normalizeIG } from "../lib/ig";
+import {
+  analyticsFromJson,
+  boardFromJson,
+  claimFromJson,
+  findCount,
+  playerFromJson,
+  receiptFromJson,
+  stringList,
+  teamFromJson,
+  teamsFromJson,
+} from "./merge";
+import type { LeaderboardBackend, LeaderRow } from "./types";
+import { rangeQuery, type TimeRange } from "./windows";
+
+/* ====== Google Apps Script (fetch → JSONP fallback) ====== */
+export function createAppsScriptBackend(endpoint: string): LeaderboardBackend {
+  /** ลอง fetch ปกติ → ถ้า fail ใช้ JSONP */
+  const getJson = async (url: string): Promise<unknown> => {
+    try {
+      const res = await fetchWithTimeout(url, 6000);
+      return await readJson(res);
+    } catch {
+      return await jsonp(url, 8000);
+    }
+  };
+
+  const getBoard = async (
+    limit: number,
+    range?: TimeRange
+  ): Promise<LeaderRow[]> =>
+    boardFromJson(
+      await getJson(
+        `${endpoint}?leaderboard=1&limit=${limit}${rangeQuery(range)}`
+      )
+    );
+
+  return {
+    kind: "appsscript",
+    syncTarget: { url: endpoint, mode: "no-cors" },
+
+    // no-cors → อ่าน status ไม่ได้ รู้แค่ว่าเน็ตส่งออกไปได้ (fetch ไม่ throw)
+    // start ต้องอ่าน session ที่ server ออกให้ → POST แบบ text/plain (ไม่มี preflight)
+    // อ่านไม่ได้ (script เก่า/redirect) → ส่งแบบ no-cors แทน server ตัดซ้ำด้วย id
+    async logEvent(event) {
+      const body = JSON.stringify({ ...event, ua: navigator.userAgent });
+      if (event.event === "start") {
+        try {
+          const res = await fetchWithTimeout(endpoint, 8000, {
+            method: "POST",
+            headers: { "Content-Type": "text/plain;charset=utf-8" },
+            body,
+          });
+          return receiptFromJson(await readJson(res));
+        } catch {
+          // ตกไปส่งแบบ no-cors
+        }
+      }
+      await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        mode: "no-cors",
+        body,
+        keepalive: true,
+      });
+    },
+
+    async getTopN(n, range) {
+      try {
+        return { ok: true, data: await getBoard(n, range) };
+      } catch (e) {
+        return { ok: false, data: [], error: errorMessage(e) };
+      }
+    },
+
+    /** ⭐ ยอด Feed "ทั้งหมด" ของ IG นี้จากชีต (รวมทุกวัน / ทุกเครื่อง) */
+    async getPlayerTotal(ig) {
+      if (!normalizeIG(ig)) return null;
+      try {
+        return findCount(await getBoard(9999), ig);
+      } catch {
+        return null;
+      }
+    },
+
+    async getAchievements(ig) {
+      const key = normalizeIG(ig);
+      if (!key) return null;
+      try {
+        const json = await getJson(
+          `${endpoint}?achievements=1&ig=${encodeURIComponent(key)}`
+        );
+        return stringList(json);
+      } catch {
+        return null;
+      }
+    },
+
+    async getClaim(ig, deviceId) {
+      const key = normalizeIG(ig);
+      if (!key) return null;
+      try {
+        const json = await getJson(
+          `${endpoint}?claim=1&ig=${encodeURIComponent(key)}&device=${encodeURIComponent(deviceId)}`
+        );
+        return claimFromJson(json);
+      } catch {
+        return null;
+      }
+    },
+
+    async getAnalytics(range) {
+      try {
+        return analyticsFromJson(
+          await getJson(`${endpoint}?analytics=1${rangeQuery(range)}`)
+        );
+      } catch {
+        return null;
+      }
+    },
+
+    async getTeamTopN(n, range) {
+      try {
+        const json = await getJson(
+          `${endpoint}?teams=1&limit=${n}${rangeQuery(range)}`
+        );
+        return { ok: true, data: teamsFromJson(json) };
+      } catch (e) {
+        return { ok: false, data: [], error: errorMessage(e) };
+      }
+    },
+
+    async getTeam(code, range) {
+      try {
+        const json = await getJson(
+          `${endpoint}?team=${encodeURIComponent(code)}${rangeQuery(range)}`
+        );
+        return teamFromJson(json, code);
+      } catch {
+        return null;
+      }
+    },
+
+    async getPlayer(ig) {
+      const key = normalizeIG(ig);
+      if (!key) return null;
+      try {
+        const json = await getJson(
+          `${endpoint}?player=${encodeURIComponent(key)}`
+        );
+        return playerFromJson(json, key);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
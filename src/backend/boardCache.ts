@@ -0,0 +1,65 @@
+import { findCount } from "./merge";
+import type { LeaderboardBackend, LeaderRow, TopResult } from "./types";
+import { rangeQuery, type TimeRange } from "./windows";
+
+/* ====== Board cache: โหลด leaderboard เต็ม ๆ ครั้งเดียว แล้วแชร์กันทุก component ======
+   key ตามช่วงเวลา, อายุ ttlMs, request ที่ยังวิ่งอยู่ใช้ร่วมกัน
+*/
+export const FULL_BOARD_LIMIT = 9999;
+
+type Entry = { at: number; result?: TopResult; inflight?: Promise<TopResult> };
+
+export function createBoardCache(
+  backend: LeaderboardBackend,
+  ttlMs = 15000,
+  now: () => number = Date.now
+) {
+  const entries = new Map<string, Entry>();
+
+  async function get(
+    range: TimeRange = {},
+    opts: { force?: boolean } = {}
+  ): Promise<TopResult> {
+    const key = rangeQuery(range) || "all";
+    const e = entries.get(key);
+    if (e?.inflight) return e.inflight;
+    if (!opts.force && e?.result?.ok && now() - e.at < ttlMs) return e.result;
+
+    const inflight = backend.getTopN(FULL_BOARD_LIMIT, range);
+    entries.set(key, { at: e?.at ?? 0, result: e?.result, inflight });
+    const result = await inflight;
+    entries.set(key, { at: now(), result });
+    return result;
+  }
+
+  return {
+    get,
+    /** ยอดรวมของ IG — board all-time ใน cache ยังสดก็ใช้เลย
+     *  ไม่งั้นถาม backend ทีละคน (ไม่โหลด board ทั้งก้อนแค่เพื่อหาคนเดียว) — null = โหลดไม่ได้ */
+    async playerTotal(ig: string, opts: { force?: boolean } = {}) {
+      const e = entries.get("all");
+      if (!opts.force && e?.result?.ok && now() - e.at < ttlMs) {
+        return findCount(e.result.data, ig);
+      }
+      return backend.getPlayerTotal(ig);
+    },
+    /** อันดับแรก ๆ ของช่วงเวลา — ตัดจาก board ใน cache (ใช้ request เดียวกับหน้า leaderboard) */
+    async top(
+      n: number,
+      range: TimeRange = {},
+      opts: { force?: boolean } = {}
+    ): Promise<TopResult> {
+      const res = await get(range, opts);
+      return res.ok ? { ...res, data: res.data.slice(0, n) } : res;
+    },
+    invalidate() {
+      entries.clear();
+    },
+  };
+}
+
+export type BoardCache = ReturnType<typeof createBoardCache>;
+
+/** อันดับ (เริ่มที่ 1) ของ IG ใน board ที่เรียงแล้ว — 0 = ไม่อยู่ใน board */
+export const rankOf = (rows: LeaderRow[], ig: string) =>
+  rows.findIndex((r) => r.ig === ig) + 1;
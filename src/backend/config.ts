@@ -0,0 +1,52 @@
+import type { BackendConfig, BackendKind } from "./types";
+
+/* ====== CONFIG: Google Apps Script Web App URL (ค่า default) ====== */
+export const DEFAULT_SHEET_ENDPOINT =
+  "https://script.google.com/macros/s/AKfycbxJHR93D1OHO7SJp8dlwFP4Gyy8m4Inoe-BM9EwCiLTKeZqp0Ry9Fh-kzpSu45LFnvc/exec";
+
+const KINDS: BackendKind[] = ["appsscript", "rest", "local"];
+
+const asKind = (v: unknown): BackendKind | undefined =>
+  KINDS.find((k) => k === String(v || "").toLowerCase());
+
+/** runtime config ที่ฝังใน index.html ได้ เช่น
+ *  <script>window.__HAMHAM_CONFIG__ = { backend: "rest", backendUrl: "http://localhost:8787" }</script>
+ */
+export type RuntimeConfig = {
+  backend?: string;
+  backendUrl?: string;
+};
+
+declare global {
+  interface Window {
+    __HAMHAM_CONFIG__?: RuntimeConfig;
+  }
+}
+
+/** ลำดับความสำคัญ: ?backend=&backendUrl= (dev เท่านั้น) → window.__HAMHAM_CONFIG__ → VITE_* env → Apps Script
+ *  build จริงไม่อ่าน query — ไม่งั้นลิงก์ที่มี ?backendUrl= ส่งคะแนน/PIN ไป server คนอื่นได้ */
+export function resolveBackendConfig(
+  search: string = window.location.search,
+  runtime: RuntimeConfig = window.__HAMHAM_CONFIG__ || {},
+  env: ImportMetaEnv = import.meta.env
+): BackendConfig {
+  const q = new URLSearchParams(env.DEV ? search : "");
+
+  const kind =
+    asKind(q.get("backend")) ||
+    asKind(runtime.backend) ||
+    asKind(env.VITE_LEADERBOARD_BACKEND) ||
+    "appsscript";
+
+  const url =
+    q.get("backendUrl") ||
+    runtime.backendUrl ||
+    env.VITE_LEADERBOARD_URL ||
+    (kind === "appsscript" ? DEFAULT_SHEET_ENDPOINT : "");
+
+  if (kind === "rest" && !url) {
+    console.warn("REST backend needs a URL → falling back to local");
+    return { kind: "local", url: "" };
+  }
+  return { kind, url };
+}
@@ -0,0 +1,52 @@
+import { attachClaim, settleClaim } from "../anticheat/claim";
+import {
+  acceptSession,
+  attachSession,
+  getDeviceId,
+} from "../anticheat/session";
+import { createAppsScriptBackend } from "./appsScript";
+import { createBoardCache } from "./boardCache";
+import { resolveBackendConfig } from "./config";
+import { createLocalBackend } from "./local";
+import { createOutbox } from "./outbox";
+import { createRestBackend } from "./rest";
+import type { BackendConfig, LeaderboardBackend } from "./types";
+
+export type * from "./types";
+export { mergeIGCaseInsensitive } from "./merge";
+export * from "./windows";
+export { rankOf } from "./boardCache";
+export * from "./live";
+
+export function createBackend(config: BackendConfig): LeaderboardBackend {
+  switch (config.kind) {
+    case "rest":
+      return createRestBackend(config.url);
+    case "local":
+      return createLocalBackend();
+    default:
+      return createAppsScriptBackend(config.url);
+  }
+}
+
+/** backend ที่ใช้ทั้งแอป (เลือกครั้งเดียวตอนโหลด) */
+export const backend = createBackend(resolveBackendConfig());
+
+/** คิว event ถาวรของทั้งแอป (ทุก start/feed ต้องผ่านตัวนี้) */
+export const outbox = createOutbox(backend, {
+  sign: async (e) => attachClaim(await attachSession(e)),
+  async receive(e, receipt) {
+    acceptSession(e, receipt);
+    // claim/link ส่งแล้ว → รู้ผลก่อนเซ็นตัวถัดไปด้วย key ใหม่
+    // (no-cors ไม่รู้ว่าติดธงไหม → ถามสถานะการจองแทน, ถามไม่ได้ = รอต่อ)
+    if (e.event === "claim" || e.event === "link") {
+      const ig = e.playerIG || "";
+      if (receipt.flagged) return settleClaim(ig, false);
+      const status = await backend.getClaim(ig, getDeviceId());
+      if (status) settleClaim(ig, status.mine);
+    }
+  },
+});
+
+/** leaderboard เต็มที่ cache ไว้ใช้ร่วมกัน (หน้า leaderboard, ยอดของฉัน) */
+export const boardCache = createBoardCache(backend);
@@ -0,0 +1,107 @@
+import { normalizeIG } from "../lib/ig";
+import { backoffDelay } from "./outbox";
+import type { LeaderRow } from "./types";
+import { rangeQuery, type TimeRange } from "./windows";
+
+/* ====== Live leaderboard (Server-Sent Events) ======
+   GET {base}/stream?limit=N[&from=ms&to=ms][&ig=@me]
+     event: board  data: { data: [{ ig, count }] }   ← snapshot ตอนต่อติด
+     event: delta  data: { ig, count }                ← ยอดใหม่ของคนที่เพิ่ง feed (ในช่วงเวลานั้น)
+     event: me     data: { ig, count }                ← ยอดรวมทั้งหมดของเรา
+   ต่อไม่ติดเกิน maxRetries ครั้ง → "polling" (ใช้ fetch/JSONP ทุก 20 วิ แบบเดิม)
+*/
+
+export type LiveStatus = "connecting" | "live" | "polling";
+
+export type LiveQuery = { limit: number; range?: TimeRange; ig?: string };
+
+export const streamQuery = (q: LiveQuery) =>
+  `limit=${q.limit}${rangeQuery(q.range)}` +
+  (q.ig ? `&ig=${encodeURIComponent(normalizeIG(q.ig))}` : "");
+
+export type LiveHandlers = {
+  onStatus: (s: LiveStatus) => void;
+  onBoard: (rows: LeaderRow[]) => void;
+  onDelta: (row: LeaderRow) => void;
+  onMe: (count: number) => void;
+};
+
+const parse = <T>(e: MessageEvent): T | null => {
+  try {
+    return JSON.parse(e.data) as T;
+  } catch {
+    return null;
+  }
+};
+
+/** คืนฟังก์ชันปิด connection */
+export function connectLive(
+  url: string,
+  handlers: LiveHandlers,
+  maxRetries = 5
+): () => void {
+  if (typeof EventSource === "undefined") {
+    handlers.onStatus("polling");
+    return () => undefined;
+  }
+
+  let es: EventSource | null = null;
+  let retries = 0;
+  let timer: number | undefined;
+  let closed = false;
+
+  const open = () => {
+    handlers.onStatus("connecting");
+    es = new EventSource(url);
+
+    es.onopen = () => {
+      retries = 0;
+      handlers.onStatus("live");
+    };
+    es.addEventListener("board", (e) => {
+      const msg = parse<{ data?: LeaderRow[] }>(e as MessageEvent);
+      if (Array.isArray(msg?.data)) handlers.onBoard(msg.data);
+    });
+    es.addEventListener("delta", (e) => {
+      const row = parse<LeaderRow>(e as MessageEvent);
+      if (row?.ig) handlers.onDelta(row);
+    });
+    es.addEventListener("me", (e) => {
+      const msg = parse<LeaderRow>(e as MessageEvent);
+      if (msg) handlers.onMe(Number(msg.count || 0));
+    });
+    // EventSource reconnect เองได้ แต่คุม backoff/จำนวนครั้งเองดีกว่า
+    es.onerror = () => {
+      es?.close();
+      if (closed) return;
+      retries += 1;
+      if (retries > maxRetries) {
+        handlers.onStatus("polling");
+        return;
+      }
+      handlers.onStatus("connecting");
+      timer = window.setTimeout(open, backoffDelay(retries));
+    };
+  };
+
+  open();
+  return () => {
+    closed = true;
+    if (timer) window.clearTimeout(timer);
+    es?.close();
+  };
+}
+
+/** ใส่ยอดใหม่ของคนหนึ่งเข้า top N (ยอดในช่วงเวลาเดียวกันมีแต่เพิ่ม) */
+export function applyDelta(rows: LeaderRow[], row: LeaderRow, n: number) {
+  const ig = normalizeIG(row.ig);
+  const prev = rows.find((r) => normalizeIG(r.ig) === ig);
+  const next = rows.filter((r) => r !== prev);
+  const claimed = row.claimed ?? prev?.claimed;
+  next.push({
+    ig,
+    count: Number(row.count) || 0,
+    ...(claimed != null && { claimed }),
+  });
+  return next.sort((a, b) => b.count - a.count).slice(0, n);
+}
@@ -0,0 +1,166 @@
+import { createEventValidator, type FlagReason } from "../anticheat/rules";
+import { cookiesOf, liveEvents, type EventSchedule } from "../events";
+import { normalizeIG } from "../lib/ig";
+import {
+  appStorage,
+  arrayOf,
+  defineKey,
+  isFiniteNumber,
+  isObject,
+  type AppStorage,
+} from "../storage";
+import { creditedIG, playerCard } from "./players";
+import { teamBoard, teamDetail } from "./teams";
+import type { IssuedSession, LeaderboardBackend, OutboxEvent } from "./types";
+import { inRange, type TimeRange } from "./windows";
+
+/* ====== Pure localStorage backend (dev / offline / test) ======
+   เก็บ event ทั้งหมดไว้ในเครื่อง แล้วคำนวณ leaderboard เอง
+*/
+/** event ที่เก็บไว้ + ผลตรวจ anti-cheat ตอนรับเข้า
+ *  start ที่ผ่านเก็บ session ที่ออกให้ไว้ด้วย (ไว้ตอบ start ซ้ำ / โหลดใหม่)
+ *  receivedAt = เวลาที่รับเข้า (rate limit นับตามนี้ ไม่ใช่ ts ของ client) */
+type StoredEvent = OutboxEvent & {
+  flagged?: FlagReason;
+  sessionKey?: string;
+  receivedAt?: number;
+};
+
+const issuedOf = (e: StoredEvent): IssuedSession | undefined =>
+  e.event === "start" && e.sessionId && e.sessionKey
+    ? { id: e.sessionId, key: e.sessionKey }
+    : undefined;
+
+export const LOCAL_BACKEND_KEY = defineKey<StoredEvent[]>(
+  "localBackendEvents",
+  () => [],
+  arrayOf((e) =>
+    isObject(e) && typeof e.id === "string" && isFiniteNumber(e.ts)
+      ? (e as StoredEvent)
+      : undefined
+  )
+);
+
+const readEvents = (storage: AppStorage) => storage.read(LOCAL_BACKEND_KEY);
+
+function totals(events: StoredEvent[], range: TimeRange = {}) {
+  const map = new Map<string, number>();
+  const claimed = new Set<string>();
+  for (const e of events) {
+    const ig = normalizeIG(e.playerIG || "");
+    if (e.event === "claim" && !e.flagged) claimed.add(ig);
+    if (e.event !== "feed" || e.flagged || !inRange(e.ts, range)) continue;
+    // ป้อนให้เพื่อน → ยอดเข้าเจ้าของแฮมสเตอร์
+    const to = creditedIG(e);
+    if (to) map.set(to, (map.get(to) || 0) + cookiesOf(e));
+  }
+  return Array.from(map, ([ig, count]) => ({
+    ig,
+    count,
+    claimed: claimed.has(ig),
+  })).sort((a, b) => b.count - a.count);
+}
+
+export function createLocalBackend(
+  storage: AppStorage = appStorage,
+  schedule: EventSchedule = liveEvents
+): LeaderboardBackend {
+  // สร้าง state ของ validator ใหม่จาก event เก่าตอนใช้ครั้งแรก
+  let validator: ReturnType<typeof createEventValidator> | null = null;
+  const getValidator = async () => {
+    if (!validator) {
+      validator = createEventValidator({ cookiesAt: schedule.cookiesAt });
+      for (const e of readEvents(storage)) {
+        await validator.check(e, {
+          issued: issuedOf(e),
+          receivedAt: e.receivedAt ?? e.ts,
+        });
+      }
+    }
+    return validator;
+  };
+
+  return {
+    kind: "local",
+
+    async logEvent(event) {
+      const v = await getValidator();
+      const events = readEvents(storage);
+      // ตัดซ้ำด้วย id — start ซ้ำได้ session เดิม
+      const seen = events.find((e) => e.id === event.id);
+      if (seen) return { session: issuedOf(seen), flagged: seen.flagged };
+      // field ที่ฝั่งนี้เป็นคนตั้ง — ไม่เชื่อค่าที่ client ส่งมา
+      const clean: StoredEvent = { ...event, receivedAt: Date.now() };
+      delete clean.flagged;
+      delete clean.sessionKey;
+      const verdict = await v.check(clean, { receivedAt: clean.receivedAt });
+      if (!verdict.ok) {
+        events.push({ ...clean, flagged: verdict.reason });
+      } else if (verdict.session) {
+        const { id, key } = verdict.session;
+        events.push({ ...clean, sessionId: id, sessionKey: key });
+      } else {
+        events.push(clean);
+      }
+      storage.write(LOCAL_BACKEND_KEY, events);
+      return verdict.ok
+        ? { session: verdict.session }
+        : { flagged: verdict.reason };
+    },
+
+    async getTopN(n, range) {
+      return {
+        ok: true,
+        data: totals(readEvents(storage), range).slice(0, n),
+      };
+    },
+
+    async getPlayerTotal(ig) {
+      const key = normalizeIG(ig);
+      if (!key) return null;
+      return totals(readEvents(storage)).find((r) => r.ig === key)?.count ?? 0;
+    },
+
+    async getAchievements(ig) {
+      const key = normalizeIG(ig);
+      if (!key) return null;
+      const badges = readEvents(storage)
+        .filter(
+          (e) =>
+            e.event === "achievement" &&
+            !e.flagged &&
+            normalizeIG(e.playerIG || "") === key &&
+            e.badge
+        )
+        .map((e) => e.badge as string);
+      return Array.from(new Set(badges));
+    },
+
+    async getClaim(ig, deviceId) {
+      if (!normalizeIG(ig)) return null;
+      return (await getValidator()).claimStatus(ig, deviceId);
+    },
+
+    async getAnalytics(range) {
+      return readEvents(storage).filter(
+        (e) => e.event === "analytics" && inRange(e.ts, range || {})
+      );
+    },
+
+    async getTeamTopN(n, range) {
+      return {
+        ok: true,
+        data: teamBoard(readEvents(storage), range).slice(0, n),
+      };
+    },
+
+    async getTeam(code, range) {
+      return teamDetail(readEvents(storage), code, range);
+    },
+
+    async getPlayer(ig) {
+      if (!normalizeIG(ig)) return null;
+      return playerCard(readEvents(storage), ig);
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import { normalizeIG } from "../lib/ig";
+import { normalizeTeamCode } from "../teams/code";
+import type {
+  ClaimStatus,
+  EventReceipt,
+  LeaderRow,
+  OutboxEvent,
+  PlayerCard,
+  TeamDetail,
+  TeamRow,
+  Visitor,
+} from "./types";
+
+/** รวมผล leaderboard จาก server → canonical (ไม่แยกพิมพ์เล็ก-ใหญ่)
+ *  แถวที่ติดธง flagged ไม่นับ */
+export function mergeIGCaseInsensitive(items: LeaderRow[]) {
+  const map = new Map<string, LeaderRow>();
+  for (const r of items || []) {
+    if (r.flagged) continue;
+    const key = normalizeIG(r.ig);
+    const prev = map.get(key);
+    const row: LeaderRow = {
+      ig: key,
+      count: (prev?.count || 0) + (Number(r.count) || 0),
+    };
+    // แถวไหนบอกว่าจองแล้ว = จองแล้ว
+    if (r.claimed != null || prev?.claimed != null) {
+      row.claimed = !!(r.claimed || prev?.claimed);
+    }
+    map.set(key, row);
+  }
+  return Array.from(map.values()).sort((a, b) => b.count - a.count);
+}
+
+/** `{ claimed, mine }` จาก server */
+export const claimFromJson = (json: unknown): ClaimStatus => {
+  const o = (json || {}) as Partial<ClaimStatus>;
+  return { claimed: !!o.claimed, mine: !!o.mine };
+};
+
+/** คำตอบของ POST event — `{ ok, session?: { id, key }, flagged? }` */
+export const receiptFromJson = (json: unknown): EventReceipt => {
+  const o = (json || {}) as {
+    session?: Record<string, unknown>;
+    flagged?: unknown;
+  };
+  const s = o.session;
+  return {
+    ...(s &&
+      typeof s.id === "string" &&
+      typeof s.key === "string" && { session: { id: s.id, key: s.key } }),
+    ...(typeof o.flagged === "string" && { flagged: o.flagged }),
+  };
+};
+
+/** ดึง array `data` จาก response ของ server แล้ว merge */
+export const boardFromJson = (json: unknown): LeaderRow[] => {
+  const data = (json as { data?: unknown } | null)?.data;
+  return Array.isArray(data) ? mergeIGCaseInsensitive(data) : [];
+};
+
+const teamRowFromJson = (raw: unknown): TeamRow | null => {
+  const o = (raw || {}) as Partial<TeamRow>;
+  const code = normalizeTeamCode(String(o.code || ""));
+  if (!code) return null;
+  return {
+    code,
+    name: String(o.name || ""),
+    count: Number(o.count) || 0,
+    size: Number(o.size) || 0,
+  };
+};
+
+/** `{ data: [{ code, name, count, size }] }` → เรียงตามยอด */
+export const teamsFromJson = (json: unknown): TeamRow[] => {
+  const data = (json as { data?: unknown } | null)?.data;
+  if (!Array.isArray(data)) return [];
+  return data
+    .map(teamRowFromJson)
+    .filter((r): r is TeamRow => !!r)
+    .sort((a, b) => b.count - a.count);
+};
+
+/** `{ code, name, count, size, members: [{ ig, count }] }` */
+export const teamFromJson = (json: unknown, code: string): TeamDetail => {
+  const row = teamRowFromJson(json) || {
+    code: normalizeTeamCode(code),
+    name: "",
+    count: 0,
+    size: 0,
+  };
+  const members = (json as { members?: unknown } | null)?.members;
+  return {
+    ...row,
+    members: Array.isArray(members) ? mergeIGCaseInsensitive(members) : [],
+  };
+};
+
+const visitorFromJson = (raw: unknown): Visitor | null => {
+  const o = (raw || {}) as Partial<Visitor>;
+  const ig = normalizeIG(String(o.ig || ""));
+  if (!ig) return null;
+  return { ig, count: Number(o.count) || 0, at: Number(o.at) || 0 };
+};
+
+/** `{ ig, hamsterName, count, claimed, referrals, gifted, visitors: [{ ig, count, at }] }` */
+export const playerFromJson = (json: unknown, ig: string): PlayerCard => {
+  const o = (json || {}) as Partial<Record<keyof PlayerCard, unknown>>;
+  return {
+    ig: normalizeIG(String(o.ig || ig)),
+    hamsterName: String(o.hamsterName || ""),
+    count: Number(o.count) || 0,
+    ...(o.claimed != null && { claimed: !!o.claimed }),
+    referrals: Number(o.referrals) || 0,
+    gifted: Number(o.gifted) || 0,
+    visitors: Array.isArray(o.visitors)
+      ? o.visitors
+          .map(visitorFromJson)
+          .filter((v): v is Visitor => !!v)
+          .sort((a, b) => b.at - a.at)
+      : [],
+  };
+};
+
+export const findCount = (rows: LeaderRow[], ig: string) => {
+  const key = normalizeIG(ig);
+  const row = rows.find((r) => normalizeIG(r.ig) === key);
+  return row ? Number(row.count || 0) : 0;
+};
+
+/** `{ data: [event, ...] }` → เฉพาะ event analytics ที่มีชื่อ + session */
+export const analyticsFromJson = (json: unknown): OutboxEvent[] => {
+  const data = (json as { data?: unknown } | null)?.data;
+  if (!Array.isArray(data)) return [];
+  return data.filter(
+    (e): e is OutboxEvent =>
+      !!e &&
+      e.event === "analytics" &&
+      typeof e.analytics?.name === "string" &&
+      typeof e.analytics?.sid === "string" &&
+      Number.isFinite(Number(e.ts))
+  );
+};
+
+/** `{ data: string[] }` → string[] (ใช้กับ achievements) */
+export const stringList = (json: unknown): string[] => {
+  const data = (json as { data?: unknown } | null)?.data;
+  return Array.isArray(data) ? data.map(String) : [];
+};
@@ -0,0 +1,259 @@
+import { isPermanentHttpError } from "../lib/http";
+import {
+  appStorage,
+  arrayOf,
+  defineKey,
+  isFiniteNumber,
+  isObject,
+  shape,
+  type AppStorage,
+} from "../storage";
+import type {
+  EventReceipt,
+  LeaderboardBackend,
+  LogPayload,
+  OutboxEvent,
+} from "./types";
+
+/* ====== Outbox: คิว event แบบถาวร + retry/backoff ======
+   ทุก event ได้ id/ts จากฝั่ง client → server ตัดซ้ำด้วย id
+   ส่งไม่สำเร็จก็เก็บไว้ใน localStorage แล้วลองใหม่ตอนเน็ตกลับมา
+   ส่งตามลำดับคิวเสมอ (nonce ของ session ต้องเพิ่มขึ้นตามลำดับที่ server ได้รับ)
+   event หลัง start/claim/link รอเซ็นจนกว่า server จะตอบกลับมา (session ใหม่ / key ใหม่)
+   server ตอบ 4xx = event นี้ใช้ไม่ได้แล้ว → ย้ายไป dead letter แล้วส่งตัวถัดไป
+   backoff เฉพาะเน็ตล่ม / 5xx ไม่งั้นตัวเดียวจะขวางทั้งคิวตลอดไป
+*/
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_DEAD_LETTERS = 20;
+
+/** event ที่ต้องรอคำตอบ server ก่อนเซ็นตัวถัดไป */
+const AWAITS_REPLY: OutboxEvent["event"][] = ["start", "claim", "link"];
+
+type Queued = {
+  event: OutboxEvent;
+  attempts: number;
+  nextAt: number;
+  /** ผ่าน sign แล้ว (ส่งซ้ำใช้ลายเซ็นเดิม) */
+  signed?: boolean;
+};
+
+export const OUTBOX_KEY = defineKey<Queued[]>(
+  "eventOutbox",
+  () => [],
+  arrayOf(
+    shape<Queued>({
+      event: (e) =>
+        isObject(e) && typeof e.id === "string" && typeof e.event === "string",
+      attempts: isFiniteNumber,
+      nextAt: isFiniteNumber,
+    })
+  )
+);
+
+/** event ที่ server ปฏิเสธถาวร — เก็บไว้ดูตอน debug (ล่าสุด MAX_DEAD_LETTERS ตัว) */
+type DeadLetter = { event: OutboxEvent; status: number; at: number };
+
+export const DEAD_LETTER_KEY = defineKey<DeadLetter[]>(
+  "eventDeadLetter",
+  () => [],
+  arrayOf(
+    shape<DeadLetter>({
+      event: isObject,
+      status: isFiniteNumber,
+      at: isFiniteNumber,
+    })
+  )
+);
+
+export const newEventId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const backoffDelay = (attempts: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+
+export type OutboxOptions = {
+  storage?: AppStorage;
+  now?: () => number;
+  /** เติม field ก่อนเข้าคิว */
+  prepare?: (e: OutboxEvent) => Promise<OutboxEvent>;
+  /** เซ็นก่อนส่ง (session/ลายเซ็น) — เรียกตามลำดับคิว ครั้งเดียวต่อ event */
+  sign?: (e: OutboxEvent) => Promise<OutboxEvent>;
+  /** server รับแล้ว — เช่น start ได้ session กลับมา (รอเสร็จก่อนเซ็นตัวถัดไป) */
+  receive?: (e: OutboxEvent, receipt: EventReceipt) => void | Promise<void>;
+};
+
+export function createOutbox(
+  backend: LeaderboardBackend,
+  opts: OutboxOptions = {}
+) {
+  const { storage = appStorage, now = Date.now } = opts;
+  const prepare = opts.prepare || (async (e: OutboxEvent) => e);
+  const sign = opts.sign || (async (e: OutboxEvent) => e);
+  const listeners = new Set<() => void>();
+  let flushing = false;
+  let timer: number | undefined;
+  // prepare เป็น async → ต่อคิวกันไว้ ให้ลำดับในคิว = ลำดับที่กด
+  let chain: Promise<unknown> = Promise.resolve();
+
+  const read = () => storage.read(OUTBOX_KEY);
+
+  // cache ไว้ให้ useSyncExternalStore ได้ค่าเดิมถ้าไม่มีอะไรเปลี่ยน
+  let pending = read().length;
+
+  // แจ้งทุกครั้งที่คิวเปลี่ยน (เซ็นแล้วก็นับ — background sync ต้อง copy ใหม่)
+  const write = (queue: Queued[]) => {
+    storage.write(OUTBOX_KEY, queue);
+    pending = queue.length;
+    listeners.forEach((l) => l());
+  };
+
+  const deadLetter = (event: OutboxEvent, status: number) =>
+    storage.write(DEAD_LETTER_KEY, [
+      ...storage.read(DEAD_LETTER_KEY).slice(1 - MAX_DEAD_LETTERS),
+      { event, status, at: now() },
+    ]);
+
+  /** เซ็น event ที่ยังไม่เซ็นตามลำดับ — หยุดหลัง start/claim/link ที่ยังไม่ได้ส่ง
+   *  (event หลังจากนั้นต้องใช้ session/key ที่ server จะตอบกลับมา) */
+  async function signReady() {
+    const signed = new Map<string, OutboxEvent>();
+    for (const q of read()) {
+      if (!q.signed) signed.set(q.event.id, await sign(q.event));
+      if (AWAITS_REPLY.includes(q.event.event)) break;
+    }
+    if (!signed.size) return;
+    // อ่านใหม่ เผื่อมี event เข้าคิวระหว่างเซ็น
+    write(
+      read().map((q) => {
+        const event = signed.get(q.event.id);
+        return event ? { ...q, event, signed: true } : q;
+      })
+    );
+  }
+
+  const schedule = (queue: Queued[]) => {
+    if (timer) window.clearTimeout(timer);
+    timer = undefined;
+    if (!queue.length) return;
+    // ส่งตามลำดับ → รอแค่ตัวแรกของคิว
+    const wait = Math.max(0, queue[0].nextAt - now());
+    timer = window.setTimeout(() => void flush(), wait);
+  };
+
+  /** ส่ง event ตามลำดับที่เข้าคิว จนหมดหรือเจอตัวที่ยังไม่ถึงเวลา/ส่งไม่ได้ */
+  async function flush(force = false) {
+    if (flushing) return;
+    flushing = true;
+    try {
+      for (;;) {
+        let item = read()[0];
+        if (!item || (!force && item.nextAt > now())) break;
+        if (!item.signed) {
+          await signReady();
+          item = read()[0];
+          if (!item) break;
+        }
+        let done = false; // ส่งแล้ว หรือโดนปฏิเสธถาวร → เอาออกจากคิว
+        try {
+          const receipt = await backend.logEvent(item.event);
+          done = true;
+          await opts.receive?.(item.event, receipt || {});
+        } catch (e) {
+          if (isPermanentHttpError(e)) {
+            console.warn("outbox: event rejected, dropping", item.event.id, e);
+            deadLetter(item.event, e.status);
+            done = true;
+            // claim/link ที่โดนปฏิเสธ → key ที่รอไว้ต้องทิ้ง
+            await opts.receive?.(item.event, { flagged: `http_${e.status}` });
+          } else {
+            console.warn("outbox: send failed, will retry", e);
+          }
+        }
+        // อ่านใหม่ทุกรอบ เผื่อมี event ใหม่เข้าคิวระหว่างส่ง
+        const queue = read();
+        const idx = queue.findIndex((q) => q.event.id === item.event.id);
+        if (idx < 0) continue;
+        if (done) {
+          queue.splice(idx, 1);
+        } else {
+          const attempts = queue[idx].attempts + 1;
+          queue[idx] = {
+            ...queue[idx],
+            attempts,
+            nextAt: now() + backoffDelay(attempts),
+          };
+        }
+        write(queue);
+        if (!done) break; // เน็ตน่าจะล่ม → รอรอบหน้า
+      }
+      // เซ็นของที่ค้างไว้ก่อน ให้ background sync ส่งแทนได้ตอนปิดแท็บ
+      await signReady();
+    } finally {
+      flushing = false;
+      schedule(read());
+    }
+  }
+
+  return {
+    /** ใส่ event ลงคิวแล้วลองส่งทันที — คืน event ที่มี id/ts แล้ว */
+    enqueue(payload: LogPayload): Promise<OutboxEvent> {
+      const base: OutboxEvent = { ...payload, id: newEventId(), ts: now() };
+      const done = chain.then(async () => {
+        const event = await prepare(base);
+        write([...read(), { event, attempts: 0, nextAt: now() }]);
+        void flush();
+        return event;
+      });
+      chain = done.catch(() => undefined);
+      return done;
+    },
+    flush,
+    pendingCount: () => pending,
+    pendingEvents: (): OutboxEvent[] => read().map((q) => q.event),
+    /** event ที่เซ็นแล้วก่อน start/claim/link ตัวแรก — ส่งจากที่อื่น (service worker) ได้
+     *  ตัวที่ต้องรอคำตอบ server ต้องให้หน้าเว็บส่งเอง */
+    readyEvents(): OutboxEvent[] {
+      const ready: OutboxEvent[] = [];
+      for (const q of read()) {
+        if (!q.signed || AWAITS_REPLY.includes(q.event.event)) break;
+        ready.push(q.event);
+      }
+      return ready;
+    },
+    /** ลบ event ที่ถูกส่งจากที่อื่นแล้ว (เช่น service worker) */
+    drop(ids: string[]) {
+      if (!ids.length) return;
+      write(read().filter((q) => !ids.includes(q.event.id)));
+    },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    /** เริ่มฟัง online/storage แล้วส่งของค้างจากรอบก่อน */
+    start() {
+      const onOnline = () => void flush(true);
+      // แท็บอื่นเพิ่ม/ส่ง event
+      const unwatch = storage.watch(OUTBOX_KEY, () => {
+        const n = read().length;
+        if (n !== pending) {
+          pending = n;
+          listeners.forEach((l) => l());
+        }
+      });
+      window.addEventListener("online", onOnline);
+      void flush(true);
+      return () => {
+        window.removeEventListener("online", onOnline);
+        unwatch();
+        if (timer) window.clearTimeout(timer);
+      };
+    },
+  };
+}
+
+export type Outbox = ReturnType<typeof createOutbox>;
@@ -0,0 +1,65 @@
+import { cookiesOf } from "../events/schedule";
+import { normalizeIG } from "../lib/ig";
+import type { OutboxEvent, PlayerCard, Visitor } from "./types";
+
+type Event = OutboxEvent & { flagged?: unknown };
+
+/** จำนวนคนที่มาเยี่ยมที่โชว์บนหน้าผู้เล่น */
+export const MAX_VISITORS = 10;
+
+/** IG ที่ได้ยอดจาก feed นี้ — ป้อนให้เพื่อน (visit mode) = เจ้าของแฮมสเตอร์ */
+export const creditedIG = (e: OutboxEvent) =>
+  normalizeIG(e.recipientIG || e.playerIG || "");
+
+/* ====== หน้าผู้เล่นจาก event (local backend; server ทำแบบเดียวกัน) ======
+   - ชื่อแฮมสเตอร์ = start ล่าสุดของ IG นี้
+   - referrals = IG ที่ start แรกติด ref เป็น IG นี้ (นับคนละครั้ง, ชวนตัวเองไม่นับ)
+   - gifted = คุกกี้ที่ IG นี้ป้อนให้คนอื่น, visitors = visit/feed ที่ recipientIG เป็น IG นี้
+*/
+export function playerCard(events: Event[], ig: string): PlayerCard {
+  const key = normalizeIG(ig);
+  const card: PlayerCard = {
+    ig: key,
+    hamsterName: "",
+    count: 0,
+    claimed: false,
+    referrals: 0,
+    gifted: 0,
+    visitors: [],
+  };
+  const started = new Set<string>();
+  const visitors = new Map<string, Visitor>();
+
+  for (const e of events) {
+    if (e.flagged) continue;
+    const who = normalizeIG(e.playerIG || "");
+    if (!who) continue;
+    if (e.event === "start") {
+      if (!started.has(who)) {
+        started.add(who);
+        const ref = normalizeIG(e.ref || "");
+        if (ref === key && who !== key) card.referrals++;
+      }
+      if (who === key && e.hamsterName) card.hamsterName = e.hamsterName;
+    }
+    if (e.event === "claim" && who === key) card.claimed = true;
+    if (e.event !== "feed" && e.event !== "visit") continue;
+
+    const cookies = e.event === "feed" ? cookiesOf(e) : 0;
+    if (e.event === "feed" && creditedIG(e) === key) card.count += cookies;
+    if (!e.recipientIG) continue;
+    if (who === key) card.gifted += cookies;
+    if (normalizeIG(e.recipientIG) === key) {
+      const v = visitors.get(who) || { ig: who, count: 0, at: 0 };
+      visitors.set(who, {
+        ...v,
+        count: v.count + cookies,
+        at: Math.max(v.at, e.ts),
+      });
+    }
+  }
+  card.visitors = Array.from(visitors.values())
+    .sort((a, b) => b.at - a.at)
+    .slice(0, MAX_VISITORS);
+  return card;
+}
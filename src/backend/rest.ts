@@ -0,0 +1,146 @@
+import { errorMessage, fetchWithTimeout, readJson } from "../lib/http";
+import { normalizeIG } from "../lib/ig";
+import {
+  analyticsFromJson,
+  boardFromJson,
+  claimFromJson,
+  playerFromJson,
+  receiptFromJson,
+  stringList,
+  teamFromJson,
+  teamsFromJson,
+} from "./merge";
+import type { LeaderboardBackend } from "./types";
+import { rangeQuery } from "./windows";
+
+/* ====== REST/JSON server ======
+   POST {base}/events                 body: OutboxEvent (ตัดซ้ำด้วย id)
+                                      → { ok, session?: { id, key } } (start ได้ session)
+   GET  {base}/leaderboard?limit=N[&from=ms&to=ms] → { data: [{ ig, count }] }
+   GET  {base}/players/:ig/total      → { ig, count }
+   GET  {base}/players/:ig/achievements → { data: ["first_feed", ...] }
+   GET  {base}/players/:ig/claim?device=ID → { claimed, mine }
+   GET  {base}/players/:ig            → { ig, hamsterName, count, claimed, referrals,
+                                           gifted, visitors: [{ ig, count, at }] }
+   GET  {base}/analytics[?from&to]    → { data: [event analytics ดิบ] }
+   GET  {base}/teams?limit=N[&from&to] → { data: [{ code, name, count, size }] }
+   GET  {base}/teams/:code[?from&to]  → { code, name, count, size, members: [{ ig, count }] }
+   GET  {base}/stream?...             → Server-Sent Events (ดู live.ts)
+*/
+export function createRestBackend(baseUrl: string): LeaderboardBackend {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  return {
+    kind: "rest",
+
+    liveUrl: (query) => `${base}/stream?${query}`,
+    syncTarget: { url: `${base}/events`, mode: "cors" },
+
+    async logEvent(event) {
+      const res = await fetchWithTimeout(`${base}/events`, 6000, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...event, ua: navigator.userAgent }),
+        keepalive: true,
+      });
+      return receiptFromJson(await readJson(res));
+    },
+
+    async getTopN(n, range) {
+      try {
+        const res = await fetchWithTimeout(
+          `${base}/leaderboard?limit=${n}${rangeQuery(range)}`
+        );
+        return { ok: true, data: boardFromJson(await readJson(res)) };
+      } catch (e) {
+        return { ok: false, data: [], error: errorMessage(e) };
+      }
+    },
+
+    async getPlayerTotal(ig) {
+      const key = normalizeIG(ig);
+      if (!key) return null;
+      try {
+        const res = await fetchWithTimeout(
+          `${base}/players/${encodeURIComponent(key)}/total`
+        );
+        const json = await readJson<{ count?: number }>(res);
+        return Number(json?.count || 0);
+      } catch {
+        return null;
+      }
+    },
+
+    async getAchievements(ig) {
+      const key = normalizeIG(ig);
+      if (!key) return null;
+      try {
+        const res = await fetchWithTimeout(
+          `${base}/players/${encodeURIComponent(key)}/achievements`
+        );
+        return stringList(await readJson(res));
+      } catch {
+        return null;
+      }
+    },
+
+    async getClaim(ig, deviceId) {
+      const key = normalizeIG(ig);
+      if (!key) return null;
+      try {
+        const res = await fetchWithTimeout(
+          `${base}/players/${encodeURIComponent(key)}/claim?device=${encodeURIComponent(deviceId)}`
+        );
+        return claimFromJson(await readJson(res));
+      } catch {
+        return null;
+      }
+    },
+
+    async getAnalytics(range) {
+      try {
+        const res = await fetchWithTimeout(
+          `${base}/analytics?${rangeQuery(range).slice(1)}`
+        );
+        return analyticsFromJson(await readJson(res));
+      } catch {
+        return null;
+      }
+    },
+
+    async getTeamTopN(n, range) {
+      try {
+        const res = await fetchWithTimeout(
+          `${base}/teams?limit=${n}${rangeQuery(range)}`
+        );
+        return { ok: true, data: teamsFromJson(await readJson(res)) };
+      } catch (e) {
+        return { ok: false, data: [], error: errorMessage(e) };
+      }
+    },
+
+    async getTeam(code, range) {
+      try {
+        const res = await fetchWithTimeout(
+          `${base}/teams/${encodeURIComponent(code)}?${rangeQuery(range).slice(1)}`
+        );
+        return teamFromJson(await readJson(res), code);
+      } catch {
+        return null;
+      }
+    },
+
+    async getPlayer(ig) {
+      const key = normalizeIG(ig);
+      if (!key) return null;
+      try {
+        const res = await fetchWithTimeout(
+          `${base}/players/${encodeURIComponent(key)}`
+        );
+        return playerFromJson(await readJson(res), key);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
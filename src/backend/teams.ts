@@ -0,0 +1,79 @@
+import { cookiesOf } from "../events/schedule";
+import { normalizeIG } from "../lib/ig";
+import { normalizeTeamCode } from "../teams/code";
+import type { LeaderRow, OutboxEvent, TeamDetail, TeamRow } from "./types";
+
+type Event = OutboxEvent & { flagged?: unknown };
+import { inRange, type TimeRange } from "./windows";
+
+/* ====== รวมยอดทีมจาก event (local backend; server ทำแบบเดียวกัน) ======
+   - สมาชิก = IG ที่ start ล่าสุดบอกว่าอยู่ทีมนี้
+   - ยอดทีม = คุกกี้จาก feed ที่ติดรหัสทีมนี้ (ย้ายทีมแล้วยอดเก่ายังอยู่กับทีมเดิม)
+   - ชื่อทีม = teamName แรกที่ส่งมากับรหัสนี้ (คนสร้างทีม)
+*/
+type TeamAgg = {
+  name: string;
+  members: Set<string>;
+  feeds: Map<string, number>;
+};
+
+function aggregate(events: Event[], range: TimeRange = {}) {
+  const teams = new Map<string, TeamAgg>();
+  const current = new Map<string, string>();
+  const teamOf = (code: string) => {
+    let t = teams.get(code);
+    if (!t) {
+      t = { name: "", members: new Set(), feeds: new Map() };
+      teams.set(code, t);
+    }
+    return t;
+  };
+
+  for (const e of events) {
+    if (e.flagged || e.team == null) continue;
+    const ig = normalizeIG(e.playerIG || "");
+    const code = normalizeTeamCode(e.team);
+    if (!ig) continue;
+    if (e.event === "start") {
+      current.set(ig, code);
+      if (code && e.teamName && !teamOf(code).name) {
+        teamOf(code).name = e.teamName.trim();
+      }
+    } else if (e.event === "feed" && code && inRange(e.ts, range)) {
+      const feeds = teamOf(code).feeds;
+      feeds.set(ig, (feeds.get(ig) || 0) + cookiesOf(e));
+    }
+  }
+  for (const [ig, code] of current) if (code) teamOf(code).members.add(ig);
+  return teams;
+}
+
+const rowOf = (code: string, t: TeamAgg): TeamRow => ({
+  code,
+  name: t.name || code,
+  count: Array.from(t.feeds.values()).reduce((a, b) => a + b, 0),
+  size: t.members.size,
+});
+
+export function teamBoard(events: Event[], range?: TimeRange) {
+  return Array.from(aggregate(events, range), ([code, t]) => rowOf(code, t))
+    .filter((r) => r.size > 0 || r.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+export function teamDetail(
+  events: Event[],
+  code: string,
+  range?: TimeRange
+): TeamDetail {
+  const key = normalizeTeamCode(code);
+  const t = aggregate(events, range).get(key);
+  if (!t) return { code: key, name: "", count: 0, size: 0, members: [] };
+  // สมาชิกปัจจุบัน + คนที่เคยป้อนให้ทีม (ย้ายออกไปแล้ว)
+  const igs = new Set([...t.members, ...t.feeds.keys()]);
+  const members: LeaderRow[] = Array.from(igs, (ig) => ({
+    ig,
+    count: t.feeds.get(ig) || 0,
+  })).sort((a, b) => b.count - a.count);
+  return { ...rowOf(key, t), members };
+}
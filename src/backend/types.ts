@@ -0,0 +1,173 @@
+import type { TimeRange } from "./windows";
+
+/* ====== Leaderboard / event backend contract ====== */
+
+/** claim = จอง IG ให้เครื่องนี้, link = ใช้ PIN ผูกเครื่องใหม่กับ IG ที่จองแล้ว
+ *  analytics = สถิติการเล่น (ไม่นับใน leaderboard) ดู src/analytics
+ *  visit = เปิดหน้าแฮมสเตอร์ของเพื่อน (recipientIG) */
+export type GameEvent =
+  "start" | "feed" | "achievement" | "claim" | "link" | "analytics" | "visit";
+
+export type AnalyticsName =
+  | "screen_view"
+  | "feed"
+  | "skip"
+  | "restart"
+  | "profile_edit"
+  | "leaderboard_refresh"
+  | "load_failure";
+
+export type AnalyticsData = {
+  name: AnalyticsName;
+  /** session ของ analytics (เปิดแอป/ห่างไป 30 นาที = session ใหม่) — คนละตัวกับ play session */
+  sid: string;
+  /** ฉากที่อยู่ตอนเกิดเรื่อง */
+  screen?: string;
+  /** รายละเอียดสั้น ๆ เช่น "tap" / "minigame", "leaderboard", "edit" */
+  detail?: string;
+  /** ตัวเลขประกอบ เช่น จำนวน feed, ms ที่ใช้โหลด */
+  value?: number;
+  ok?: boolean;
+};
+
+export type LogPayload = {
+  hamsterName?: string;
+  playerIG?: string;
+  event: GameEvent;
+  /** id ของ badge (event = "achievement") */
+  badge?: string;
+  /** มากับ claim/link เท่านั้น — device key ลับของ IG นี้บนเครื่องนี้ */
+  claimKey?: string;
+  /** SHA-256 ของ recovery PIN (claim = ตั้ง, link = พิสูจน์) */
+  pinHash?: string;
+  /** รหัสทีม — start = เข้า/ออกทีม ("" = ไม่มีทีม), feed = ยอดนี้นับให้ทีมไหน */
+  team?: string;
+  /** ชื่อทีม — มากับ start ของคนที่สร้างทีม */
+  teamName?: string;
+  /** feed นี้นับเป็นคุกกี้กี่ชิ้น (อีเวนต์ตัวคูณ) — ไม่ส่ง = 1 */
+  cookies?: number;
+  /** id ของอีเวนต์ที่จัดอยู่ตอน feed (ดู src/events) */
+  liveEvent?: string;
+  /** มากับ event = "analytics" */
+  analytics?: AnalyticsData;
+  /** IG ของคนที่ส่งลิงก์มา (?ref=) — มากับ start แรกของ profile ใหม่ */
+  ref?: string;
+  /** visit mode: เจ้าของแฮมสเตอร์ที่ได้คุกกี้ / ถูกเยี่ยม — playerIG = คนให้
+   *  feed ที่มี recipientIG นับเข้ายอดของ recipientIG ไม่ใช่ของ playerIG */
+  recipientIG?: string;
+};
+
+/** event ที่ผ่าน outbox แล้ว: id ไว้ให้ server ตัดซ้ำ, ts = เวลาที่กดจริง */
+export type OutboxEvent = LogPayload & {
+  id: string;
+  ts: number;
+  deviceId?: string;
+  /** session ที่ server ออกให้ตอนตอบ start (ดู EventReceipt) */
+  sessionId?: string;
+  /** เพิ่มทีละ 1 ต่อ session (กัน replay) */
+  nonce?: number;
+  /** HMAC-SHA256 ดู src/anticheat/sign.ts */
+  sig?: string;
+  /** HMAC ด้วย device key — ต้องมีทุก event ของ IG ที่ถูกจองแล้ว */
+  claimSig?: string;
+};
+
+/** play session ที่ server สุ่มให้ — key ไม่เคยออกจาก client ไปที่อื่น */
+export type IssuedSession = { id: string; key: string };
+
+/** คำตอบของ server ต่อ event ที่ส่ง — start ได้ session กลับมา
+ *  flagged = server เก็บไว้แต่ไม่ผ่าน (เช่น PIN ผิด) — ไม่รู้ (no-cors) = ไม่มี field นี้ */
+export type EventReceipt = { session?: IssuedSession; flagged?: string };
+
+export type LeaderRow = {
+  ig: string;
+  count: number;
+  /** server ติดธงว่าโกง → ไม่นับในยอดรวม */
+  flagged?: boolean;
+  /** IG มีเจ้าของ (จองด้วย device key แล้ว) — undefined = backend ไม่บอก */
+  claimed?: boolean;
+};
+
+export type ClaimStatus = {
+  claimed: boolean;
+  /** เครื่องนี้ (deviceId) เป็นเครื่องของเจ้าของ */
+  mine: boolean;
+};
+
+export type TopResult = {
+  ok: boolean;
+  data: LeaderRow[];
+  error?: string;
+};
+
+export type TeamRow = {
+  code: string;
+  name: string;
+  /** คุกกี้ที่นับให้ทีม (ในช่วงเวลาที่ขอ) */
+  count: number;
+  /** จำนวนสมาชิก */
+  size: number;
+};
+
+export type TeamTopResult = {
+  ok: boolean;
+  data: TeamRow[];
+  error?: string;
+};
+
+/** หน้าทีม: สมาชิกพร้อมยอดที่ป้อนให้ทีม (เรียงมาก → น้อย) */
+export type TeamDetail = TeamRow & { members: LeaderRow[] };
+
+/** คนที่มาเยี่ยม: count = คุกกี้ที่ป้อนให้, at = ครั้งล่าสุดที่มา */
+export type Visitor = { ig: string; count: number; at: number };
+
+/** หน้าสาธารณะของผู้เล่น (/u/@ig) */
+export type PlayerCard = {
+  ig: string;
+  /** ชื่อแฮมสเตอร์จาก start ล่าสุด */
+  hamsterName: string;
+  /** คุกกี้ทั้งหมด (all-time) */
+  count: number;
+  claimed?: boolean;
+  /** จำนวนผู้เล่นที่เริ่มเล่นจากลิงก์ของ IG นี้ */
+  referrals: number;
+  /** คุกกี้ที่ IG นี้ป้อนให้แฮมสเตอร์ของคนอื่น (ไม่นับใน count) */
+  gifted: number;
+  /** คนที่มาเยี่ยมล่าสุด (ใหม่ → เก่า) */
+  visitors: Visitor[];
+};
+
+export type BackendKind = "appsscript" | "rest" | "local";
+
+export type BackendConfig = {
+  kind: BackendKind;
+  /** URL ของ Apps Script / REST server (local ไม่ใช้) */
+  url: string;
+};
+
+/** ทุก backend ต้องทำได้ 3 อย่าง: log event, ดึง top N, ดึงยอดรวมของผู้เล่น */
+export interface LeaderboardBackend {
+  readonly kind: BackendKind;
+  /** throw ถ้าส่งไม่สำเร็จ → outbox จะ retry; server ต้องตัดซ้ำด้วย `id`
+   *  (start ซ้ำ = ตอบ session เดิมกลับมา) */
+  logEvent(event: OutboxEvent): Promise<EventReceipt | void>;
+  /** range ว่าง = all-time; นับจาก ts ของ event */
+  getTopN(n: number, range?: TimeRange): Promise<TopResult>;
+  /** คืน null ถ้าเน็ต/backend พัง → ให้ไป fallback เป็น local */
+  getPlayerTotal(ig: string): Promise<number | null>;
+  /** badge ที่ปลดล็อกแล้วของ IG นี้ (ทุกเครื่อง) — null = โหลดไม่ได้ */
+  getAchievements(ig: string): Promise<string[] | null>;
+  /** event analytics ดิบในช่วงเวลา (ไว้ทำ dashboard) — null = โหลดไม่ได้ */
+  getAnalytics(range?: TimeRange): Promise<OutboxEvent[] | null>;
+  /** IG นี้ถูกจองหรือยัง / เครื่องนี้ผูกอยู่ไหม — null = เช็กไม่ได้ */
+  getClaim(ig: string, deviceId: string): Promise<ClaimStatus | null>;
+  getTeamTopN(n: number, range?: TimeRange): Promise<TeamTopResult>;
+  /** null = โหลดไม่ได้; ทีมที่ไม่มีใครใช้ = name "" และไม่มีสมาชิก */
+  getTeam(code: string, range?: TimeRange): Promise<TeamDetail | null>;
+  /** null = โหลดไม่ได้; IG ที่ยังไม่เคยเล่น = hamsterName "" และยอด 0 */
+  getPlayer(ig: string): Promise<PlayerCard | null>;
+  /** URL ของ SSE stream (ดู live.ts) — ไม่มี = push ไม่ได้ ใช้ polling */
+  liveUrl?(query: string): string;
+  /** ปลายทางที่ service worker ใช้ส่ง event แทนหน้าเว็บ (Background Sync) */
+  readonly syncTarget?: { url: string; mode: RequestMode };
+}
@@ -0,0 +1,76 @@
+import { liveEvents } from "../events";
+
+/* ====== Leaderboard time windows (วันนี้ / สัปดาห์นี้ / ทั้งหมด / แคมเปญ / อีเวนต์) ====== */
+
+export type LeaderWindow = "day" | "week" | "all" | "campaign" | "event";
+
+/** ช่วงเวลาแบบ epoch ms — from รวม, to ไม่รวม; ไม่ใส่ = ไม่จำกัด */
+export type TimeRange = { from?: number; to?: number };
+
+export type Campaign = { name: string; from: number; to: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** key ของวันตามเวลาเครื่อง เช่น "2026-10-19" */
+export const dayKey = (ts: number) => {
+  const d = new Date(ts);
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+};
+
+export const startOfDay = (ts: number) => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/** สัปดาห์เริ่มวันจันทร์ */
+export const startOfWeek = (ts: number) => {
+  const d = new Date(startOfDay(ts));
+  const back = (d.getDay() + 6) % 7;
+  d.setDate(d.getDate() - back);
+  return d.getTime();
+};
+
+/** event = อีเวนต์ที่กำลังจัด หรือตัวล่าสุดที่จบไปแล้ว (ตารางใน src/events) */
+export function windowRange(
+  win: LeaderWindow,
+  now: number = Date.now(),
+  campaign: Campaign | null = CAMPAIGN,
+  event: { start: number; end: number } | null = liveEvents.latest(now)
+): TimeRange {
+  switch (win) {
+    case "day":
+      return { from: startOfDay(now), to: startOfDay(now) + DAY_MS };
+    case "week":
+      return { from: startOfWeek(now), to: startOfWeek(now) + 7 * DAY_MS };
+    case "campaign":
+      return campaign ? { from: campaign.from, to: campaign.to } : {};
+    case "event":
+      return event ? { from: event.start, to: event.end } : {};
+    default:
+      return {};
+  }
+}
+
+export const inRange = (ts: number, range: TimeRange) =>
+  (range.from == null || ts >= range.from) &&
+  (range.to == null || ts < range.to);
+
+/** query string ที่ส่งให้ server: &from=<ms>&to=<ms> */
+export const rangeQuery = (range: TimeRange = {}) =>
+  (range.from != null ? `&from=${range.from}` : "") +
+  (range.to != null ? `&to=${range.to}` : "");
+
+/** แคมเปญจาก env: VITE_CAMPAIGN_NAME / VITE_CAMPAIGN_START / VITE_CAMPAIGN_END (ISO) */
+function campaignFromEnv(
+  env: ImportMetaEnv = import.meta.env
+): Campaign | null {
+  const from = Date.parse(env.VITE_CAMPAIGN_START || "");
+  const to = Date.parse(env.VITE_CAMPAIGN_END || "");
+  if (Number.isNaN(from) || Number.isNaN(to) || to <= from) return null;
+  return { name: env.VITE_CAMPAIGN_NAME || "Campaign", from, to };
+}
+
+export const CAMPAIGN = campaignFromEnv();
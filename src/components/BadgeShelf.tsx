@@ -0,0 +1,59 @@
+import { useEffect } from "react";
+
+import { BADGES } from "../achievements/catalog";
+import { useI18n } from "../i18n/useI18n";
+
+/* ====== ชั้นวาง badge (เปิดจากกล่อง IG) ====== */
+export default function BadgeShelf(props: {
+  ig: string;
+  unlocked: Record<string, number>;
+  onClose: () => void;
+}) {
+  const { ig, unlocked, onClose } = props;
+  const { t, tDynamic, date } = useI18n();
+  const count = BADGES.filter((b) => unlocked[b.id]).length;
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  return (
+    <div className="overlay" role="dialog" aria-label={t("profile.badges")}>
+      <div className="overlay-panel">
+        <div className="overlay-head">
+          <h2>
+            🏅 {ig} · {count}/{BADGES.length}
+          </h2>
+          <button
+            className="overlay-close"
+            onClick={onClose}
+            aria-label={t("common.close")}
+          >
+            ✕
+          </button>
+        </div>
+        <div className="badge-grid">
+          {BADGES.map((b) => (
+            <div
+              key={b.id}
+              className={`badge${unlocked[b.id] ? "" : " locked"}`}
+              title={
+                unlocked[b.id]
+                  ? t("badges.unlockedOn", { date: date(unlocked[b.id]) })
+                  : t("badges.locked")
+              }
+            >
+              <div className="badge-icon">{b.icon}</div>
+              <div className="badge-title">
+                {tDynamic(`badge.${b.id}.title`, b.title)}
+              </div>
+              <div>{tDynamic(`badge.${b.id}.desc`, b.description)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useEffect } from "react";
+
+import type { Badge } from "../achievements/catalog";
+import { useI18n } from "../i18n/useI18n";
+
+const TOAST_MS = 3500;
+
+/* ====== toast ตอนปลดล็อก badge (ทีละอัน ตามคิว) ====== */
+export default function BadgeToasts(props: {
+  queue: Badge[];
+  onShown: () => void;
+}) {
+  const { queue, onShown } = props;
+  const current = queue[0];
+  const { t, tDynamic } = useI18n();
+
+  useEffect(() => {
+    if (!current) return;
+    const id = window.setTimeout(onShown, TOAST_MS);
+    return () => window.clearTimeout(id);
+  }, [current, onShown]);
+
+  if (!current) return null;
+  return (
+    <div className="toast-stack" role="status" aria-live="polite">
+      <div className="toast">
+        {current.icon} {t("badges.unlockedToast")}{" "}
+        <b>{tDynamic(`badge.${current.id}.title`, current.title)}</b>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { useI18n } from "../i18n/useI18n";
+
+/* ====== 🔒 IG มีเจ้าของ / 🔓 ใครก็ป้อนในชื่อนี้ได้ ======
+   backend ไม่บอก (claimed = undefined) → ไม่แสดงอะไร */
+export default function ClaimMark(props: { claimed?: boolean }) {
+  const { t } = useI18n();
+  if (props.claimed == null) return null;
+  const label = props.claimed ? t("top3.claimed") : t("top3.unclaimed");
+  return (
+    <span
+      className={`claim-mark${props.claimed ? "" : " open"}`}
+      title={label}
+      aria-label={label}
+      role="img"
+    >
+      {props.claimed ? "🔒" : "🔓"}
+    </span>
+  );
+}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+
+import { useI18n } from "../i18n/useI18n";
+import {
+  CATCHER_HEIGHT,
+  CATCHES_PER_FEED,
+  configFor,
+  createCatchGame,
+  DROP_SIZE,
+  feedsFromScore,
+  MAX_FEEDS_PER_ROUND,
+  type CatchGame,
+} from "../minigame/engine";
+
+const HEIGHT = 420;
+/** เฟรมช่วงแรกช้ากว่านี้ (เฉลี่ย) = เครื่องไม่ไหว */
+const SLOW_FRAME_MS = 60;
+const SLOW_CHECK_FRAMES = 45;
+
+/* ====== มินิเกมรับคุกกี้ (เปิดจากฉาก Feed) ======
+   นิ้ว/เมาส์ลากไปรับ หรือ ← → / A D; Esc = ออก
+*/
+export default function CookieCatch(props: {
+  level: number;
+  onFinish: (feeds: number) => void;
+  onCancel: () => void;
+  /** เฟรมกระตุกหนัก → ปิดเกมแล้วกลับไปใช้ปุ่ม Feed */
+  onSlow: () => void;
+}) {
+  const { level, onFinish, onCancel, onSlow } = props;
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const gameRef = useRef<CatchGame | null>(null);
+  const [width] = useState(() => Math.min(360, window.innerWidth - 48));
+  const [hud, setHud] = useState({ score: 0, seconds: 20, over: false });
+
+  // game loop
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) {
+      onSlow();
+      return;
+    }
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = HEIGHT * dpr;
+    ctx.scale(dpr, dpr);
+
+    const config = configFor(level, width, HEIGHT);
+    const { catcherWidth } = config;
+    const game = createCatchGame(config);
+    gameRef.current = game;
+
+    let raf = 0;
+    let last = performance.now();
+    let frames = 0;
+    let slowSum = 0;
+
+    const draw = () => {
+      const s = game.state();
+      ctx.clearRect(0, 0, width, HEIGHT);
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.font = `${DROP_SIZE}px sans-serif`;
+      for (const d of s.drops) ctx.fillText(d.bad ? "🌶️" : "🍪", d.x, d.y);
+      // ช่วงที่รับได้ + ตัวแฮมสเตอร์
+      ctx.fillStyle = "rgba(62, 230, 128, 0.25)";
+      ctx.fillRect(
+        s.x - catcherWidth / 2,
+        HEIGHT - CATCHER_HEIGHT + DROP_SIZE / 2,
+        catcherWidth,
+        6
+      );
+      ctx.font = `${CATCHER_HEIGHT - 8}px sans-serif`;
+      ctx.fillText("🐹", s.x, HEIGHT - CATCHER_HEIGHT / 2);
+    };
+
+    const frame = (at: number) => {
+      const dt = at - last;
+      last = at;
+      // แท็บถูกซ่อน (dt ยาวมาก) ไม่นับ
+      if (frames < SLOW_CHECK_FRAMES && dt < 1000) {
+        frames += 1;
+        slowSum += dt;
+        if (frames === SLOW_CHECK_FRAMES && slowSum / frames > SLOW_FRAME_MS) {
+          onSlow();
+          return;
+        }
+      }
+      game.step(dt);
+      draw();
+      const s = game.state();
+      const seconds = Math.ceil(s.timeLeft / 1000);
+      setHud((h) =>
+        h.score === s.score && h.seconds === seconds && h.over === s.over
+          ? h
+          : { score: s.score, seconds, over: s.over }
+      );
+      if (!s.over) raf = requestAnimationFrame(frame);
+    };
+    raf = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(raf);
+    // เริ่มเกมครั้งเดียวต่อการเปิด
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // คีย์บอร์ด
+  useEffect(() => {
+    const dirOf = (key: string) =>
+      key === "ArrowLeft" || key === "a"
+        ? -1
+        : key === "ArrowRight" || key === "d"
+          ? 1
+          : 0;
+    const down = (e: KeyboardEvent) => {
+      if (e.key === "Escape") return onCancel();
+      const d = dirOf(e.key);
+      if (d) {
+        e.preventDefault();
+        gameRef.current?.setDirection(d);
+      }
+    };
+    const up = (e: KeyboardEvent) => {
+      if (dirOf(e.key)) gameRef.current?.setDirection(0);
+    };
+    window.addEventListener("keydown", down);
+    window.addEventListener("keyup", up);
+    return () => {
+      window.removeEventListener("keydown", down);
+      window.removeEventListener("keyup", up);
+    };
+  }, [onCancel]);
+
+  const onPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    gameRef.current?.moveTo(((e.clientX - rect.left) / rect.width) * width);
+  };
+
+  const feeds = feedsFromScore(hud.score);
+
+  return (
+    <div className="overlay" role="dialog" aria-label={t("minigame.title")}>
+      <div className="overlay-panel minigame">
+        <div className="overlay-head">
+          <h2>{t("minigame.title")}</h2>
+          <button
+            className="overlay-close"
+            onClick={onCancel}
+            aria-label={t("common.close")}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="minigame-hud" aria-live="polite">
+          <span>🍪 {hud.score}</span>
+          <span>⏱ {hud.seconds}s</span>
+        </div>
+
+        <canvas
+          ref={canvasRef}
+          className="minigame-canvas"
+          style={{ width, height: HEIGHT }}
+          onPointerDown={onPointer}
+          onPointerMove={onPointer}
+        />
+
+        {hud.over ? (
+          <div className="minigame-result">
+            <div>
+              {feeds > 0
+                ? t("minigame.result", { count: hud.score, feeds })
+                : t("minigame.nothing", { per: CATCHES_PER_FEED })}
+            </div>
+            <button
+              className="button yes-button"
+              onClick={() => (feeds > 0 ? onFinish(feeds) : onCancel())}
+            >
+              {feeds > 0
+                ? t("minigame.feed", { count: feeds })
+                : t("common.close")}
+            </button>
+          </div>
+        ) : (
+          <div className="small-text minigame-help">
+            {t("minigame.help", {
+              per: CATCHES_PER_FEED,
+              max: MAX_FEEDS_PER_ROUND,
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import {
+  boardCache,
+  rankOf,
+  windowRange,
+  type LeaderRow,
+  type LeaderWindow,
+} from "../backend";
+import { useI18n } from "../i18n/useI18n";
+import ClaimMark from "./ClaimMark";
+import { normalizeIG } from "../lib/ig";
+
+const PAGE_SIZE = 20;
+/** จำนวนคนเหนือ/ใต้เราที่โชว์ในกล่อง "your rank" */
+const NEIGHBOURS = 2;
+
+/* ====== หน้า leaderboard เต็ม (เปิดจาก Top3Box) ====== */
+export default function LeaderboardPage(props: {
+  myIG: string;
+  window: LeaderWindow;
+  onOpenPlayer: (ig: string) => void;
+  onClose: () => void;
+}) {
+  const { window: win, onOpenPlayer, onClose } = props;
+  const myIG = normalizeIG(props.myIG);
+  const { t, n } = useI18n();
+
+  const [rows, setRows] = useState<LeaderRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [page, setPage] = useState(0);
+
+  // สลับแท็บช่วงเวลาระหว่างโหลด → ผลของแท็บเก่าที่มาทีหลังต้องทิ้ง
+  const winRef = useRef(win);
+  winRef.current = win;
+
+  const load = async (force = false) => {
+    const wanted = win;
+    setLoading(true);
+    const res = await boardCache.get(windowRange(wanted), { force });
+    if (winRef.current !== wanted) return;
+    setRows(res.ok ? res.data : []);
+    setError(res.ok ? null : res.error || "Unknown error");
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [win]);
+
+  // ปิดด้วย Esc
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const ranked = useMemo(
+    () => rows.map((r, i) => ({ ...r, rank: i + 1 })),
+    [rows]
+  );
+
+  const filtered = useMemo(() => {
+    const q = query.trim().replace(/^@/, "").toLowerCase();
+    return q ? ranked.filter((r) => r.ig.includes(q)) : ranked;
+  }, [ranked, query]);
+
+  useEffect(() => setPage(0), [query, win]);
+
+  const pages = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const visible = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const myRank = myIG ? rankOf(rows, myIG) : 0;
+  const around =
+    myRank > 0
+      ? ranked.slice(Math.max(0, myRank - 1 - NEIGHBOURS), myRank + NEIGHBOURS)
+      : [];
+
+  const jumpToMe = () => {
+    setQuery("");
+    setPage(Math.floor((myRank - 1) / PAGE_SIZE));
+  };
+
+  const renderRow = (r: LeaderRow & { rank: number }) => (
+    <li key={r.ig} className={`lb-row${r.ig === myIG ? " me" : ""}`}>
+      <span className="lb-rank">#{n(r.rank)}</span>
+      <span className="lb-ig">
+        <button
+          className="lb-player"
+          onClick={() => onOpenPlayer(r.ig)}
+          title={t("player.open")}
+        >
+          {r.ig}
+        </button>
+        <ClaimMark claimed={r.claimed} />
+      </span>
+      <span className="lb-count">{n(r.count)} 🍪</span>
+    </li>
+  );
+
+  return (
+    <div className="overlay" role="dialog" aria-label={t("board.aria")}>
+      <div className="overlay-panel">
+        <div className="overlay-head">
+          <h2>{t("board.title")}</h2>
+          <button className="button thin" onClick={() => load(true)}>
+            {t("top3.refresh")}
+          </button>
+          <button
+            className="overlay-close"
+            onClick={onClose}
+            aria-label={t("common.close")}
+          >
+            ✕
+          </button>
+        </div>
+
+        {myIG && !loading && (
+          <div className="lb-me">
+            {myRank > 0 ? (
+              <>
+                <div>
+                  {t("board.you", { rank: myRank, total: rows.length })}
+                  <button className="lb-link" onClick={jumpToMe}>
+                    {t("board.show")}
+                  </button>
+                </div>
+                <ol className="lb-list">{around.map(renderRow)}</ol>
+              </>
+            ) : (
+              <div>{t("board.notYet", { ig: myIG })}</div>
+            )}
+          </div>
+        )}
+
+        <input
+          className="input thin lb-search"
+          placeholder={t("board.search")}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label={t("board.searchAria")}
+        />
+
+        {loading ? (
+          <div className="lb-empty">{t("common.loading")}</div>
+        ) : error ? (
+          <div className="lb-empty lb-error">
+            {t("common.failed")}
+            <br />
+            <small>{error}</small>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="lb-empty">{t("board.noResults")}</div>
+        ) : (
+          <ol className="lb-list">{visible.map(renderRow)}</ol>
+        )}
+
+        {pages > 1 && (
+          <div className="lb-pager">
+            <button
+              className="button thin"
+              disabled={page === 0}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              ←
+            </button>
+            <span>
+              {page + 1} / {pages}
+            </span>
+            <button
+              className="button thin"
+              disabled={page >= pages - 1}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
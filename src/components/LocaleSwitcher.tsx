@@ -0,0 +1,24 @@
+import { CATALOGS, LOCALES } from "../i18n";
+import { useI18n } from "../i18n/useI18n";
+
+/* ====== ปุ่มเลือกภาษา (มุมซ้ายบน) — ตัวเลือกมาจากไฟล์ใน src/i18n/locales ====== */
+export default function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  if (LOCALES.length < 2) return null;
+  return (
+    <select
+      className="locale-switcher"
+      value={locale}
+      onChange={(e) => setLocale(e.target.value)}
+      aria-label={t("locale.switch")}
+      title={t("locale.switch")}
+    >
+      {LOCALES.map((code) => (
+        <option key={code} value={code}>
+          🌐 {CATALOGS[code].meta.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,47 @@
+import type { Needs } from "../hamster/needs";
+import type { MessageKey } from "../i18n";
+import { useI18n } from "../i18n/useI18n";
+
+const METERS: Array<{
+  key: "hunger" | "happiness" | "energy";
+  icon: string;
+  label: MessageKey;
+  /** hunger ยิ่งน้อยยิ่งดี → กลับด้านแถบ */
+  invert?: boolean;
+}> = [
+  { key: "hunger", icon: "🍪", label: "needs.full", invert: true },
+  { key: "happiness", icon: "💖", label: "needs.happy" },
+  { key: "energy", icon: "⚡", label: "needs.energy" },
+];
+
+/* ====== แถบสถานะแฮมสเตอร์ (ใต้คำพูด) ====== */
+export default function NeedsBar(props: { needs: Needs; mobile: boolean }) {
+  const { needs, mobile } = props;
+  const { t } = useI18n();
+
+  return (
+    <div className="needs-bar" style={{ gap: mobile ? 6 : 10 }}>
+      {METERS.map((m) => {
+        const value = Math.round(m.invert ? 100 - needs[m.key] : needs[m.key]);
+        const label = t(m.label);
+        return (
+          <div
+            key={m.key}
+            className="needs-meter"
+            title={`${label}: ${value}%`}
+            aria-label={`${label} ${value}%`}
+          >
+            <span>{m.icon}</span>
+            <div className="needs-track">
+              <div
+                className={`needs-fill${value < 25 ? " low" : ""}`}
+                style={{ width: `${value}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+      {needs.asleep && <span className="needs-zzz">💤</span>}
+    </div>
+  );
+}
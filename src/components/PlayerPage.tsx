@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+
+import { backend, type PlayerCard } from "../backend";
+import { useI18n } from "../i18n/useI18n";
+import { normalizeIG } from "../lib/ig";
+import { router } from "../router";
+import ClaimMark from "./ClaimMark";
+
+/* ====== หน้าสาธารณะของผู้เล่น (/u/@ig): ชื่อแฮมสเตอร์ + ยอดคุกกี้ + ลิงก์ชวนเพื่อน ======
+   visit mode: คนอื่นที่มี profile ป้อนแฮมสเตอร์ตัวนี้ได้ (ยอดเข้าเจ้าของ) */
+export default function PlayerPage(props: {
+  ig: string;
+  /** IG ของคนที่เปิดดู — ติดไปกับลิงก์ที่คัดลอก (?ref=) */
+  myIG: string;
+  image: string;
+  /** ป้อนให้หนึ่งครั้ง → คุกกี้ที่ได้ (0 = กดถี่ไป) — ไม่มี = ป้อนไม่ได้ (หน้าตัวเอง / ยังไม่มี profile) */
+  onFeed?: () => number;
+  onPlay: () => void;
+  onClose: () => void;
+}) {
+  const { image, onFeed, onPlay, onClose } = props;
+  const ig = normalizeIG(props.ig);
+  const myIG = normalizeIG(props.myIG);
+  const { t, n, date } = useI18n();
+
+  const [player, setPlayer] = useState<PlayerCard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+  /** คุกกี้ที่เราป้อนให้ในรอบนี้ (โชว์ทันที ไม่ต้องรอ backend) */
+  const [given, setGiven] = useState(0);
+  useEffect(() => setGiven(0), [ig]);
+
+  const load = async () => {
+    setLoading(true);
+    setPlayer(await backend.getPlayer(ig));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ig]);
+
+  // ปิดด้วย Esc
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        router.shareUrl({ name: "player", ig }, myIG || undefined)
+      );
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // clipboard ใช้ไม่ได้ — ลิงก์อยู่ในแถบ URL แล้ว คัดลอกเองได้
+    }
+  };
+
+  const known = !!player && (!!player.hamsterName || player.count > 0);
+
+  const feed = () => {
+    const cookies = onFeed?.() || 0;
+    if (!cookies) return;
+    setGiven((g) => g + cookies);
+    setPlayer((p) => p && { ...p, count: p.count + cookies });
+  };
+
+  return (
+    <div className="overlay" role="dialog" aria-label={t("player.aria")}>
+      <div className="overlay-panel player-page">
+        <div className="overlay-head">
+          <h2>🐹 {player?.hamsterName || ig}</h2>
+          <button className="button thin" onClick={load}>
+            {t("top3.refresh")}
+          </button>
+          <button
+            className="overlay-close"
+            onClick={onClose}
+            aria-label={t("common.close")}
+          >
+            ✕
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="lb-empty">{t("common.loading")}</div>
+        ) : !player ? (
+          <div className="lb-empty lb-error">{t("common.failed")}</div>
+        ) : !known ? (
+          <div className="lb-empty">{t("player.unknown", { ig })}</div>
+        ) : (
+          <div className="player-card">
+            <img className="player-hamster" src={image} alt="" />
+            <div className="player-ig">
+              {t("player.by", { ig })}
+              <ClaimMark claimed={player.claimed} />
+            </div>
+            <div className="player-total">
+              {t("player.total", { count: player.count })}
+            </div>
+            {player.referrals > 0 && (
+              <div className="player-refs">
+                {t("player.referrals", { count: player.referrals })}
+              </div>
+            )}
+            {player.gifted > 0 && (
+              <div className="player-refs">
+                {t("player.gifted", { count: player.gifted })}
+              </div>
+            )}
+            {onFeed && (
+              <>
+                <button className="button yes-button" onClick={feed}>
+                  {t("player.feed")}
+                </button>
+                {given > 0 && (
+                  <div className="player-refs">
+                    {t("player.given", { count: given })}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {!!player?.visitors.length && (
+          <>
+            <h3 className="player-visitors">{t("player.visitors")}</h3>
+            <ol className="lb-list">
+              {player.visitors.map((v) => (
+                <li
+                  key={v.ig}
+                  className={`lb-row${v.ig === myIG ? " me" : ""}`}
+                >
+                  <span className="lb-ig">{v.ig}</span>
+                  <span className="lb-rank">{date(v.at)}</span>
+                  <span className="lb-count">{n(v.count)} 🍪</span>
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+
+        <div className="player-actions">
+          <button className="lb-link" onClick={copyLink}>
+            {copied ? t("team.copied") : t("player.copyLink")}
+          </button>
+          <button className="button thin" onClick={onPlay}>
+            {t("player.play")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useI18n } from "../i18n/useI18n";
+import type { Profile } from "../profiles/store";
+
+const ADD = "__add__";
+
+/* ====== ตัวสลับ profile ในกล่อง IG (มุมขวาบน) ====== */
+export default function ProfileSwitcher(props: {
+  profiles: Profile[];
+  active: Profile | null;
+  onSwitch: (id: string) => void;
+  onAdd: () => void;
+}) {
+  const { profiles, active, onSwitch, onAdd } = props;
+  const { t } = useI18n();
+
+  return (
+    <label className="profile-switcher" title={t("profile.switch")}>
+      👫
+      <select
+        value={active?.id || ""}
+        onChange={(e) =>
+          e.target.value === ADD ? onAdd() : onSwitch(e.target.value)
+        }
+        aria-label={t("profile.switchAria")}
+      >
+        {profiles.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.ig} · {p.hamsterName}
+          </option>
+        ))}
+        <option value={ADD}>{t("profile.add")}</option>
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+
+import { useI18n } from "../i18n/useI18n";
+import type { Profile } from "../profiles/store";
+import { AFTER_HOURS_CHOICES, reminders } from "../reminders";
+import { useReminders } from "../reminders/useReminders";
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+const hh = (h: number) => `${String(h).padStart(2, "0")}:00`;
+
+/* ====== ตั้งค่าเตือนแฮมสเตอร์หิว (เปิดจากกล่อง IG) — ปิดเตือนได้ในปุ่มเดียว ====== */
+export default function ReminderSettings(props: {
+  profile: Profile;
+  onClose: () => void;
+}) {
+  const { profile, onClose } = props;
+  const { t } = useI18n();
+  const { settings, permission } = useReminders(profile.id);
+  const [asking, setAsking] = useState(false);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const enable = async () => {
+    setAsking(true);
+    try {
+      await reminders.enable(profile.id);
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const blocked = permission === "denied" || permission === "unsupported";
+
+  return (
+    <div className="overlay" role="dialog" aria-label={t("reminder.aria")}>
+      <div className="overlay-panel">
+        <div className="overlay-head">
+          <h2>{t("reminder.heading", { name: profile.hamsterName })}</h2>
+          <button
+            className="overlay-close"
+            onClick={onClose}
+            aria-label={t("common.close")}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="reminder-body">
+          <p>{t("reminder.hint", { name: profile.hamsterName })}</p>
+
+          <label className="reminder-row">
+            <span>{t("reminder.after")}</span>
+            <select
+              className="input"
+              value={settings.afterHours}
+              onChange={(e) =>
+                reminders.update(profile.id, {
+                  afterHours: Number(e.target.value),
+                })
+              }
+            >
+              {AFTER_HOURS_CHOICES.map((h) => (
+                <option key={h} value={h}>
+                  {t("reminder.hours", { count: h })}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="reminder-row">
+            <span>{t("reminder.quiet")}</span>
+            <span className="reminder-quiet">
+              <select
+                className="input"
+                value={settings.quietStart}
+                aria-label={t("reminder.quietStart")}
+                onChange={(e) =>
+                  reminders.update(profile.id, {
+                    quietStart: Number(e.target.value),
+                  })
+                }
+              >
+                {HOURS.map((h) => (
+                  <option key={h} value={h}>
+                    {hh(h)}
+                  </option>
+                ))}
+              </select>
+              –
+              <select
+                className="input"
+                value={settings.quietEnd}
+                aria-label={t("reminder.quietEnd")}
+                onChange={(e) =>
+                  reminders.update(profile.id, {
+                    quietEnd: Number(e.target.value),
+                  })
+                }
+              >
+                {HOURS.map((h) => (
+                  <option key={h} value={h}>
+                    {hh(h)}
+                  </option>
+                ))}
+              </select>
+            </span>
+          </div>
+
+          {blocked && (
+            <div className="lb-empty lb-error">
+              {t(
+                permission === "denied"
+                  ? "reminder.denied"
+                  : "reminder.unsupported"
+              )}
+            </div>
+          )}
+
+          <div className="profile-actions">
+            {settings.enabled ? (
+              <button
+                className="button thin"
+                onClick={() => reminders.disable(profile.id)}
+              >
+                {t("reminder.off")}
+              </button>
+            ) : (
+              <button
+                className="button thin primary"
+                onClick={enable}
+                disabled={asking || blocked}
+              >
+                {t("reminder.on")}
+              </button>
+            )}
+          </div>
+          <div className="reminder-status">
+            {settings.enabled ? t("reminder.isOn") : t("reminder.isOff")}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from "react";
+
+import {
+  aggregateAnalytics,
+  FIXTURES,
+  funnelOrder,
+  type Rate,
+} from "../analytics";
+import {
+  backend,
+  windowRange,
+  type LeaderWindow,
+  type OutboxEvent,
+} from "../backend";
+import { formatCountdown } from "../events";
+import { useI18n } from "../i18n/useI18n";
+import { resolveScenario } from "../scenario";
+
+/** "live" = ถาม backend, อื่น ๆ = ชื่อไฟล์ใน src/analytics/fixtures */
+type Source = "live" | string;
+
+const WINDOWS = ["day", "week", "all"] as const;
+
+/* ====== หน้า /stats: funnel ทีละฉาก, retention, error rate ====== */
+export default function StatsPage() {
+  const { t, n, date } = useI18n();
+  const order = useMemo(() => funnelOrder(resolveScenario()), []);
+
+  const [source, setSource] = useState<Source>("live");
+  const [win, setWin] = useState<LeaderWindow>("week");
+  const [events, setEvents] = useState<OutboxEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    // fixture เป็นข้อมูลที่บันทึกไว้แล้ว → ไม่กรองตามช่วงเวลาของวันนี้
+    const data =
+      source === "live"
+        ? await backend.getAnalytics(windowRange(win))
+        : await FIXTURES[source]?.().catch(() => null);
+    setEvents(data || []);
+    setError(!data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [source, win]);
+
+  const stats = useMemo(
+    () => aggregateAnalytics(events, order),
+    [events, order]
+  );
+
+  const pct = (r: number) => `${n(Math.round(r * 100))}%`;
+  const ofTotal = (r: Rate) =>
+    t("stats.ofTotal", { count: r.count, total: r.of });
+
+  const kpis: [string, string][] = [
+    [t("stats.sessions"), n(stats.sessions)],
+    [t("stats.players"), n(stats.players)],
+    [t("stats.events"), n(stats.events)],
+    [t("stats.avgSession"), formatCountdown(stats.sessionMs.avg)],
+    [t("stats.medianSession"), formatCountdown(stats.sessionMs.median)],
+    [t("stats.restarts"), stats.restartsPerSession.toFixed(2)],
+  ];
+
+  return (
+    <div className="stats-page">
+      <div className="stats-head">
+        <h1>{t("stats.title")}</h1>
+        <a className="lb-link" href={import.meta.env.BASE_URL}>
+          {t("stats.back")}
+        </a>
+      </div>
+
+      <div className="stats-controls">
+        <label>
+          {t("stats.source")}{" "}
+          <select
+            className="input thin"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+          >
+            <option value="live">{t("stats.live")}</option>
+            {Object.keys(FIXTURES).map((name) => (
+              <option key={name} value={name}>
+                {t("stats.fixture", { name })}
+              </option>
+            ))}
+          </select>
+        </label>
+        {source === "live" && (
+          <label>
+            {t("stats.period")}{" "}
+            <select
+              className="input thin"
+              value={win}
+              onChange={(e) => setWin(e.target.value as LeaderWindow)}
+            >
+              {WINDOWS.map((w) => (
+                <option key={w} value={w}>
+                  {t(`top3.tab.${w}` as const)}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button className="button thin" onClick={load} disabled={loading}>
+          {t("top3.refresh")}
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="lb-empty">{t("common.loading")}</div>
+      ) : error ? (
+        <div className="lb-empty lb-error">{t("common.failed")}</div>
+      ) : stats.events === 0 ? (
+        <div className="lb-empty">{t("stats.empty")}</div>
+      ) : (
+        <>
+          {stats.from != null && stats.to != null && (
+            <div className="stats-range">
+              {t("stats.range", { from: date(stats.from), to: date(stats.to) })}
+            </div>
+          )}
+
+          <div className="stats-kpis">
+            {kpis.map(([label, value]) => (
+              <div key={label} className="stats-kpi">
+                <div className="stats-kpi-value">{value}</div>
+                <div className="stats-kpi-label">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          <h2>{t("stats.funnel")}</h2>
+          <table className="stats-table">
+            <thead>
+              <tr>
+                <th>{t("stats.screen")}</th>
+                <th>{t("stats.reach")}</th>
+                <th>{t("stats.feeds")}</th>
+                <th>{t("stats.skips")}</th>
+                <th>{t("stats.dropOff")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.funnel.map((step) => (
+                <tr key={step.screen}>
+                  <td>{step.screen}</td>
+                  <td>
+                    <div className="stats-bar">
+                      <span style={{ width: pct(step.reach) }} />
+                    </div>
+                    {n(step.sessions)} · {pct(step.reach)}
+                  </td>
+                  <td>{n(step.feeds)}</td>
+                  <td>{n(step.skips)}</td>
+                  <td>{pct(step.dropOff)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h2>{t("stats.retention")}</h2>
+          <div className="stats-kpis">
+            {(
+              [
+                [t("stats.d1"), stats.retention.d1],
+                [t("stats.d7"), stats.retention.d7],
+              ] as const
+            ).map(([label, r]) => (
+              <div key={label} className="stats-kpi">
+                <div className="stats-kpi-value">{pct(r.rate)}</div>
+                <div className="stats-kpi-label">
+                  {label}
+                  <br />
+                  {t("stats.ofDevices", { count: r.count, total: r.of })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <h2>{t("stats.errors")}</h2>
+          <div className="stats-kpis">
+            <div className="stats-kpi">
+              <div className="stats-kpi-value">
+                {pct(stats.errorSessions.rate)}
+              </div>
+              <div className="stats-kpi-label">
+                {t("stats.errorSessions")}
+                <br />
+                {ofTotal(stats.errorSessions)}
+              </div>
+            </div>
+            <div className="stats-kpi">
+              <div className="stats-kpi-value">{pct(stats.refresh.rate)}</div>
+              <div className="stats-kpi-label">
+                {t("stats.refreshFailed")}
+                <br />
+                {ofTotal(stats.refresh)}
+              </div>
+            </div>
+            <div className="stats-kpi">
+              <div className="stats-kpi-value">
+                {n(Math.round(stats.refresh.avgMs))} ms
+              </div>
+              <div className="stats-kpi-label">{t("stats.refreshTime")}</div>
+            </div>
+          </div>
+          {stats.errors.length ? (
+            <ol className="lb-list">
+              {stats.errors.map((e) => (
+                <li key={e.detail} className="lb-row">
+                  <span className="lb-ig">{e.detail}</span>
+                  <span className="lb-count">{n(e.count)}</span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="lb-empty">{t("stats.noErrors")}</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
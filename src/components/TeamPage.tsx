@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+
+import {
+  backend,
+  windowRange,
+  type LeaderWindow,
+  type TeamDetail,
+} from "../backend";
+import { useI18n } from "../i18n/useI18n";
+import { normalizeIG } from "../lib/ig";
+
+/* ====== หน้าทีม: รหัสทีม + สมาชิกกับยอดที่ป้อนให้ทีม (เปิดจาก Top3Box / กล่อง IG) ====== */
+export default function TeamPage(props: {
+  code: string;
+  myIG: string;
+  window: LeaderWindow;
+  onClose: () => void;
+}) {
+  const { code, window: win, onClose } = props;
+  const myIG = normalizeIG(props.myIG);
+  const { t, n } = useI18n();
+
+  const [team, setTeam] = useState<TeamDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    const res = await backend.getTeam(code, windowRange(win));
+    setTeam(res);
+    setFailed(!res);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, win]);
+
+  // ปิดด้วย Esc
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // clipboard ใช้ไม่ได้ (http / ไม่อนุญาต) — รหัสโชว์อยู่แล้ว ให้จดเอง
+    }
+  };
+
+  return (
+    <div className="overlay" role="dialog" aria-label={t("team.aria")}>
+      <div className="overlay-panel">
+        <div className="overlay-head">
+          <h2>👥 {team?.name || code}</h2>
+          <button className="button thin" onClick={load}>
+            {t("top3.refresh")}
+          </button>
+          <button
+            className="overlay-close"
+            onClick={onClose}
+            aria-label={t("common.close")}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="lb-me team-head">
+          <span>
+            {t("team.code")} <code className="team-code-tag">{code}</code>
+          </span>
+          <button className="lb-link" onClick={copyCode}>
+            {copied ? t("team.copied") : t("team.copy")}
+          </button>
+          {team && (
+            <div>
+              {t("team.total", { count: team.count })} ·{" "}
+              {t("top3.members", { count: team.size })}
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="lb-empty">{t("common.loading")}</div>
+        ) : failed || !team ? (
+          <div className="lb-empty lb-error">{t("common.failed")}</div>
+        ) : team.members.length === 0 ? (
+          <div className="lb-empty">{t("team.empty")}</div>
+        ) : (
+          <ol className="lb-list">
+            {team.members.map((m, i) => (
+              <li key={m.ig} className={`lb-row${m.ig === myIG ? " me" : ""}`}>
+                <span className="lb-rank">#{n(i + 1)}</span>
+                <span className="lb-ig">{m.ig}</span>
+                <span className="lb-count">{n(m.count)} 🍪</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
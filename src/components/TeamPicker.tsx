@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+
+import { backend } from "../backend";
+import { useI18n } from "../i18n/useI18n";
+import {
+  isTeamCodeValid,
+  normalizeTeamCode,
+  TEAM_CODE_LENGTH,
+  TEAM_NAME_MAX,
+} from "../teams/code";
+import type { TeamDraft } from "../teams/draft";
+
+const LOOKUP_DELAY_MS = 400;
+
+/* ====== ช่องทีมในหน้า onboarding: ใส่รหัสเข้าทีม หรือสร้างทีมใหม่ ====== */
+export default function TeamPicker(props: {
+  value: TeamDraft;
+  onChange: (d: TeamDraft) => void;
+}) {
+  const { value, onChange } = props;
+  const { t } = useI18n();
+  // ผลหาทีมจากรหัส: undefined = ยังไม่รู้, null = โหลดไม่ได้
+  const [found, setFound] = useState<{ name: string } | null | undefined>();
+
+  const code = normalizeTeamCode(value.code);
+  const lookup = value.mode === "join" && isTeamCodeValid(code);
+
+  useEffect(() => {
+    setFound(undefined);
+    if (!lookup) return;
+    let alive = true;
+    const timer = window.setTimeout(async () => {
+      const team = await backend.getTeam(code);
+      if (!alive) return;
+      setFound(team && { name: team.name });
+      if (team?.name) onChange({ mode: "join", code, name: team.name });
+    }, LOOKUP_DELAY_MS);
+    return () => {
+      alive = false;
+      window.clearTimeout(timer);
+    };
+    // onChange เปลี่ยนทุก render — หาใหม่เฉพาะตอนรหัสเปลี่ยน
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, lookup]);
+
+  const status =
+    value.mode === "create"
+      ? t("team.createHint")
+      : !code
+        ? t("team.soloHint")
+        : !isTeamCodeValid(code)
+          ? t("team.badCode", { length: TEAM_CODE_LENGTH })
+          : found === undefined
+            ? t("common.loading")
+            : found?.name
+              ? t("team.found", { name: found.name })
+              : t("team.notFound");
+
+  return (
+    <div className="team-picker">
+      <div className="field">
+        <label className="label" htmlFor="team-input">
+          {t("team.label")}
+        </label>
+        {value.mode === "join" ? (
+          <input
+            id="team-input"
+            className="input thin team-code"
+            placeholder={t("team.codePlaceholder")}
+            value={value.code}
+            maxLength={TEAM_CODE_LENGTH + 2}
+            autoComplete="off"
+            onChange={(e) =>
+              onChange({ mode: "join", code: e.target.value, name: "" })
+            }
+          />
+        ) : (
+          <input
+            id="team-input"
+            className="input thin"
+            placeholder={t("team.namePlaceholder")}
+            value={value.name}
+            maxLength={TEAM_NAME_MAX}
+            onChange={(e) =>
+              onChange({ mode: "create", code: "", name: e.target.value })
+            }
+          />
+        )}
+      </div>
+      <button
+        className="lb-link"
+        onClick={() =>
+          onChange(
+            value.mode === "join"
+              ? { mode: "create", code: "", name: "" }
+              : { mode: "join", code: "", name: "" }
+          )
+        }
+      >
+        {value.mode === "join" ? t("team.create") : t("team.join")}
+      </button>
+      <div className="team-status" role="status">
+        {status}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { THEME_CHOICES, type ThemeChoice } from "../theme";
+import { useTheme } from "../theme/useTheme";
+import { useI18n } from "../i18n/useI18n";
+
+/* ====== ปุ่มเลือกธีม (มุมซ้ายล่าง เหนือปุ่มภาษา) ====== */
+export default function ThemeSwitcher() {
+  const { choice, setChoice } = useTheme();
+  const { t } = useI18n();
+
+  return (
+    <select
+      className="locale-switcher theme-switcher"
+      value={choice}
+      onChange={(e) => setChoice(e.target.value as ThemeChoice)}
+      aria-label={t("theme.switch")}
+      title={t("theme.switch")}
+    >
+      {THEME_CHOICES.map((c) => (
+        <option key={c} value={c}>
+          {t(`theme.${c}`)}
+        </option>
+      ))}
+    </select>
+  );
+}
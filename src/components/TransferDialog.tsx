@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+
+import type { MessageKey } from "../i18n";
+import { useI18n } from "../i18n/useI18n";
+import type { Profile } from "../profiles/store";
+import { shareOrDownload } from "../share/card";
+import {
+  applyBackup,
+  BackupError,
+  createBackup,
+  previewBackup,
+  type BackupPreview,
+  type PlayerBackup,
+} from "../transfer/backup";
+import { backupQr, parseBackupInput } from "../transfer/qr";
+
+export type TransferMode = "export" | "import";
+
+/* ====== Backup / ย้ายเครื่อง: export (QR + ไฟล์) และ import (ตรวจ → ดูก่อน → รวม) ====== */
+export default function TransferDialog(props: {
+  profile: Profile | null;
+  mode: TransferMode;
+  /** backup ที่มากับลิงก์ QR */
+  initialText?: string;
+  onImported: (p: Profile) => void;
+  onClose: () => void;
+}) {
+  const { profile, onImported, onClose } = props;
+  const { t, n } = useI18n();
+  const [mode, setMode] = useState<TransferMode>(
+    profile ? props.mode : "import"
+  );
+
+  // export
+  const [backup, setBackup] = useState<PlayerBackup | null>(null);
+  const [qr, setQr] = useState<string | null | undefined>(undefined);
+  const [copied, setCopied] = useState(false);
+
+  // import
+  const [text, setText] = useState(props.initialText || "");
+  const [incoming, setIncoming] = useState<PlayerBackup | null>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    if (mode !== "export" || !profile) return;
+    let current = true;
+    (async () => {
+      const b = await createBackup(profile);
+      if (!current) return;
+      setBackup(b);
+      const img = await backupQr(b);
+      if (current) setQr(img);
+    })();
+    return () => {
+      current = false;
+    };
+  }, [mode, profile]);
+
+  const check = async (input = text) => {
+    setIncoming(null);
+    setPreview(null);
+    setError(null);
+    if (!input.trim()) return;
+    try {
+      const b = await parseBackupInput(input);
+      setIncoming(b);
+      setPreview(previewBackup(b));
+    } catch (e) {
+      setError(
+        e instanceof BackupError
+          ? (`transfer.error.${e.code}` as MessageKey)
+          : "transfer.error.format"
+      );
+    }
+  };
+
+  // มาจากลิงก์ QR → ตรวจให้เลย
+  useEffect(() => {
+    if (props.initialText) check(props.initialText);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    check(content);
+  };
+
+  const json = backup ? JSON.stringify(backup, null, 2) : "";
+
+  const download = () => {
+    if (!backup) return;
+    const blob = new Blob([json], { type: "application/json" });
+    shareOrDownload(
+      blob,
+      `hamster-${backup.profile.ig.slice(1)}.json`,
+      t("transfer.shareTitle")
+    );
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(json);
+      setCopied(true);
+    } catch (e) {
+      console.warn("clipboard unavailable", e);
+    }
+  };
+
+  const merge = () => {
+    if (!incoming) return;
+    onImported(applyBackup(incoming));
+  };
+
+  return (
+    <div className="overlay" role="dialog" aria-label={t("transfer.title")}>
+      <div className="overlay-panel">
+        <div className="overlay-head">
+          <h2>{t("transfer.title")}</h2>
+          <button
+            className="overlay-close"
+            onClick={onClose}
+            aria-label={t("common.close")}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="transfer-tabs" role="tablist">
+          {(["export", "import"] as const).map((m) => (
+            <button
+              key={m}
+              role="tab"
+              aria-selected={mode === m}
+              className={`button thin${mode === m ? " primary" : ""}`}
+              disabled={m === "export" && !profile}
+              onClick={() => setMode(m)}
+            >
+              {t(`transfer.${m}`)}
+            </button>
+          ))}
+        </div>
+
+        {mode === "export" ? (
+          <div className="transfer-body">
+            <p>{t("transfer.exportHint", { ig: profile?.ig || "" })}</p>
+            {qr === undefined ? (
+              <div className="lb-empty">{t("common.loading")}</div>
+            ) : qr ? (
+              <img className="transfer-qr" src={qr} alt="QR" />
+            ) : (
+              <div className="lb-empty">{t("transfer.qrTooBig")}</div>
+            )}
+            <div className="profile-actions">
+              <button
+                className="button thin primary"
+                onClick={download}
+                disabled={!backup}
+              >
+                {t("transfer.download")}
+              </button>
+              <button className="button thin" onClick={copy} disabled={!backup}>
+                {copied ? t("transfer.copied") : t("transfer.copy")}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="transfer-body">
+            <p>{t("transfer.importHint")}</p>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => onFile(e.target.files?.[0])}
+              aria-label={t("transfer.file")}
+            />
+            <textarea
+              className="input transfer-text"
+              rows={4}
+              placeholder={t("transfer.paste")}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+            <button className="button thin" onClick={() => check()}>
+              {t("transfer.check")}
+            </button>
+
+            {error && <div className="lb-empty lb-error">{t(error)}</div>}
+
+            {incoming && preview && (
+              <div className="lb-me">
+                <div>
+                  <b>{incoming.profile.ig}</b> · {incoming.profile.hamsterName}
+                </div>
+                <div>
+                  {preview.isNew
+                    ? t("transfer.previewNew")
+                    : t("transfer.previewMerge")}
+                </div>
+                <div>
+                  🍪 {n(preview.feedsBefore)} → <b>{n(preview.feedsAfter)}</b>
+                </div>
+                {preview.newBadges.length > 0 && (
+                  <div>
+                    🏅{" "}
+                    {t("transfer.previewBadges", {
+                      count: preview.newBadges.length,
+                    })}
+                  </div>
+                )}
+                <button className="button thin primary" onClick={merge}>
+                  {t("transfer.merge")}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { createEventSchedule } from "./store";
+
+export * from "./schedule";
+export { createEventSchedule, SCHEDULE_KEY, type EventSchedule } from "./store";
+
+/** ตารางอีเวนต์ของทั้งแอป: VITE_EVENTS_URL → public/events.json */
+export const liveEvents = createEventSchedule(
+  import.meta.env.VITE_EVENTS_URL || `${import.meta.env.BASE_URL}events.json`
+);
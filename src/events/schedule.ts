@@ -0,0 +1,149 @@
+import type { Caption, Scenario } from "../scenario/graph";
+import { parseThemeColors, type ThemeColors } from "../theme/tokens";
+
+/* ====== อีเวนต์จำกัดเวลา (Valentine, Songkran, วันเกิดแฮมสเตอร์ ...) ======
+   ตารางมาจาก JSON ตอนรัน (public/events.json) → เพิ่ม/แก้อีเวนต์ไม่ต้อง build ใหม่
+   ทุกฟังก์ชันรับเวลาเข้ามา ไม่อ่านนาฬิกาเอง (เทสด้วยเวลาปลอมได้)
+*/
+export type LiveEvent = {
+  id: string;
+  /** แยกภาษาได้ { "en": "...", "th": "..." } */
+  name: Caption;
+  /** epoch ms — start รวม, end ไม่รวม */
+  start: number;
+  end: number;
+  /** feed ครั้งหนึ่งได้คุกกี้ × เท่านี้ (default 1) */
+  multiplier?: number;
+  /** คุกกี้แถมต่อ feed (บวกหลังคูณ) */
+  bonusFeeds?: number;
+  /** node → ชื่อ GIF ใน src/assets หรือ URL */
+  images?: Record<string, string>;
+  /** node → คำพูดแทนของเดิม */
+  captions?: Record<string, Caption>;
+  /** token สีที่ทับธีมระหว่างอีเวนต์ เช่น { "accent": "#ff6fa5" } (ดู src/theme) */
+  colors?: ThemeColors;
+};
+
+export const MAX_MULTIPLIER = 10;
+export const MAX_BONUS_FEEDS = 10;
+
+const isCaption = (v: unknown): v is Caption =>
+  typeof v === "string" ||
+  (!!v &&
+    typeof v === "object" &&
+    Object.values(v).every((s) => typeof s === "string"));
+
+const toTime = (v: unknown) =>
+  typeof v === "number" ? v : typeof v === "string" ? Date.parse(v) : NaN;
+
+const stringMap = (v: unknown) =>
+  !!v &&
+  typeof v === "object" &&
+  Object.values(v).every((s) => typeof s === "string");
+
+/** อีเวนต์ 1 รายการจาก JSON — start/end เป็น ISO หรือ ms; ใช้ไม่ได้ = undefined */
+export function parseLiveEvent(raw: unknown): LiveEvent | undefined {
+  const o = (raw || {}) as Record<string, unknown>;
+  const start = toTime(o.start);
+  const end = toTime(o.end);
+  if (typeof o.id !== "string" || !o.id || !isCaption(o.name)) return;
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) return;
+  const ev: LiveEvent = { id: o.id, name: o.name, start, end };
+  if (o.multiplier != null) {
+    const m = Math.round(Number(o.multiplier));
+    if (!(m >= 1 && m <= MAX_MULTIPLIER)) return;
+    ev.multiplier = m;
+  }
+  if (o.bonusFeeds != null) {
+    const b = Math.round(Number(o.bonusFeeds));
+    if (!(b >= 0 && b <= MAX_BONUS_FEEDS)) return;
+    ev.bonusFeeds = b;
+  }
+  if (o.images != null) {
+    if (!stringMap(o.images)) return;
+    ev.images = o.images as Record<string, string>;
+  }
+  if (o.captions != null) {
+    if (!o.captions || typeof o.captions !== "object") return;
+    if (!Object.values(o.captions).every(isCaption)) return;
+    ev.captions = o.captions as Record<string, Caption>;
+  }
+  if (o.colors != null) {
+    const colors = parseThemeColors(o.colors);
+    if (!colors) return;
+    ev.colors = colors;
+  }
+  return ev;
+}
+
+/** `{ events: [...] }` หรือ array — ตัวที่พังทิ้ง, เรียงตามเวลาเริ่ม */
+export function parseSchedule(raw: unknown): LiveEvent[] {
+  const list = Array.isArray(raw)
+    ? raw
+    : (raw as { events?: unknown } | null)?.events;
+  if (!Array.isArray(list)) return [];
+  const out: LiveEvent[] = [];
+  for (const item of list) {
+    const ev = parseLiveEvent(item);
+    if (ev) out.push(ev);
+    else console.warn("events: skipped invalid entry", item);
+  }
+  return out.sort((a, b) => a.start - b.start);
+}
+
+export const isLive = (ev: LiveEvent, now: number) =>
+  now >= ev.start && now < ev.end;
+
+/** อีเวนต์ที่กำลังจัด (ซ้อนกัน = ตัวที่เริ่มก่อน) */
+export const activeEvent = (events: LiveEvent[], now: number) =>
+  events.find((ev) => isLive(ev, now)) || null;
+
+/** อีเวนต์ถัดไปที่ยังไม่เริ่ม */
+export const upcomingEvent = (events: LiveEvent[], now: number) =>
+  events.find((ev) => ev.start > now) || null;
+
+/** อีเวนต์ที่กำลังจัด หรือตัวล่าสุดที่จบไปแล้ว — ใช้กับแท็บ leaderboard อีเวนต์ */
+export const latestEvent = (events: LiveEvent[], now: number) =>
+  activeEvent(events, now) ||
+  events.filter((ev) => ev.end <= now).sort((a, b) => b.end - a.end)[0] ||
+  null;
+
+/** feed 1 ครั้งได้กี่คุกกี้ระหว่างอีเวนต์นี้ (ไม่มีอีเวนต์ = 1) */
+export const cookiesPerFeed = (ev: LiveEvent | null) =>
+  ev ? (ev.multiplier ?? 1) + (ev.bonusFeeds ?? 0) : 1;
+
+/** คุกกี้ของ feed event (client เก่าไม่ส่งมา = 1) */
+export const cookiesOf = (e: { cookies?: number }) =>
+  Math.max(1, Math.floor(Number(e.cookies) || 1));
+
+/** เหลือเวลาเท่าไร → "2d 03:04:05" / "03:04:05" */
+export function formatCountdown(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const hms = [
+    Math.floor((total % 86400) / 3600),
+    Math.floor((total % 3600) / 60),
+    total % 60,
+  ]
+    .map((v) => String(v).padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}d ${hms}` : hms;
+}
+
+/** เรื่องเดิม + ภาพ/คำพูดของอีเวนต์ (node ที่ไม่มีในเรื่องข้าม) */
+export function withEventTheme(sc: Scenario, ev: LiveEvent | null): Scenario {
+  if (!ev || (!ev.images && !ev.captions)) return sc;
+  const nodes = { ...sc.nodes };
+  for (const key of Object.keys(nodes)) {
+    const image = ev.images?.[key];
+    const caption = ev.captions?.[key];
+    if (image || caption) {
+      nodes[key] = {
+        ...nodes[key],
+        ...(image && { image }),
+        ...(caption && { caption }),
+      };
+    }
+  }
+  return { ...sc, nodes };
+}
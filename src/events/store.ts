@@ -0,0 +1,77 @@
+import { appStorage, arrayOf, defineKey, type AppStorage } from "../storage";
+import {
+  activeEvent,
+  cookiesPerFeed,
+  latestEvent,
+  parseLiveEvent,
+  parseSchedule,
+  upcomingEvent,
+  type LiveEvent,
+} from "./schedule";
+
+/* ====== ตารางอีเวนต์ของทั้งแอป ======
+   โหลดจาก URL ตอนเปิดแอป (ทุก ๆ RELOAD_MS) แล้ว cache ไว้ใช้ตอน offline
+   now ฉีดเข้ามาได้ → เทส/พรีวิวอีเวนต์ล่วงหน้าด้วยนาฬิกาปลอม
+*/
+export const SCHEDULE_KEY = defineKey<LiveEvent[]>(
+  "eventSchedule",
+  () => [],
+  arrayOf(parseLiveEvent)
+);
+
+const RELOAD_MS = 30 * 60 * 1000;
+
+export function createEventSchedule(
+  url: string,
+  storage: AppStorage = appStorage,
+  now: () => number = Date.now
+) {
+  const listeners = new Set<() => void>();
+  let events = storage.read(SCHEDULE_KEY);
+
+  const set = (next: LiveEvent[]) => {
+    events = next;
+    storage.write(SCHEDULE_KEY, next);
+    listeners.forEach((l) => l());
+  };
+
+  /** โหลดตารางใหม่ — false = โหลดไม่ได้ (ใช้ของที่ cache ไว้ต่อ) */
+  async function load() {
+    try {
+      const res = await fetch(url, { cache: "no-cache" });
+      if (!res.ok) throw new Error("HTTP " + res.status);
+      set(parseSchedule(await res.json()));
+      return true;
+    } catch (e) {
+      console.warn("events: schedule load failed", e);
+      return false;
+    }
+  }
+
+  return {
+    now,
+    getState: () => events,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    load,
+    /** ใช้ตารางนี้แทน (เทส / พรีวิว) */
+    set,
+    active: (at = now()) => activeEvent(events, at),
+    upcoming: (at = now()) => upcomingEvent(events, at),
+    latest: (at = now()) => latestEvent(events, at),
+    /** คุกกี้ต่อ feed ณ เวลานั้น — ใช้ทั้งตอนป้อนและตอนตรวจ event */
+    cookiesAt: (at: number) => cookiesPerFeed(activeEvent(events, at)),
+    /** โหลดเดี๋ยวนี้แล้วโหลดซ้ำเรื่อย ๆ — คืนฟังก์ชันหยุด */
+    start() {
+      void load();
+      const timer = window.setInterval(() => void load(), RELOAD_MS);
+      return () => window.clearInterval(timer);
+    },
+  };
+}
+
+export type EventSchedule = ReturnType<typeof createEventSchedule>;
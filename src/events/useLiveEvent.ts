@@ -0,0 +1,63 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+
+import { liveEvents } from ".";
+import { activeEvent, cookiesPerFeed, upcomingEvent } from "./schedule";
+
+/** อีเวนต์ที่จะเริ่มภายในเวลานี้ → โชว์นับถอยหลังก่อนเริ่ม */
+const TEASE_MS = 3 * 24 * 60 * 60 * 1000;
+/** ตื่นมาเช็กอย่างน้อยทุกนาที (นาฬิกาเครื่องถูกปรับ / เครื่อง sleep) */
+const MAX_WAIT_MS = 60000;
+
+/* ====== Hook: อีเวนต์ที่กำลังจัด + อีเวนต์ที่ใกล้เริ่ม ======
+   ค่าเปลี่ยนเฉพาะตอนเข้า/ออกช่วง (ตั้ง timer ไปถึงขอบถัดไป) → ไม่ re-render ทั้งแอปทุกวินาที
+   ตัวเลขนับถอยหลังใช้ useCountdown ใน component ที่โชว์เท่านั้น
+*/
+export function useLiveEvent(schedule = liveEvents) {
+  const events = useSyncExternalStore(schedule.subscribe, schedule.getState);
+  const [now, setNow] = useState(schedule.now);
+
+  const active = activeEvent(events, now);
+  const upcoming = upcomingEvent(events, now);
+  const teasing = !!upcoming && upcoming.start - now < TEASE_MS;
+  const next = !active && teasing ? upcoming : null;
+
+  // ขอบถัดไปที่สถานะจะเปลี่ยน: อีเวนต์จบ / อีเวนต์ถัดไปเริ่ม / เข้าช่วงนับถอยหลัง
+  const boundary = Math.min(
+    active ? active.end : Infinity,
+    upcoming ? upcoming.start : Infinity,
+    upcoming && !teasing ? upcoming.start - TEASE_MS : Infinity
+  );
+
+  useEffect(() => {
+    const wait = Math.min(MAX_WAIT_MS, Math.max(0, boundary - now) + 50);
+    const timer = window.setTimeout(() => setNow(schedule.now()), wait);
+    return () => window.clearTimeout(timer);
+  }, [boundary, now, schedule]);
+
+  // object เดิมจนกว่าอีเวนต์จะเปลี่ยน → memo ของ component ที่รับไปยังข้ามได้
+  return useMemo(
+    () => ({
+      event: active,
+      /** อีเวนต์ถัดไปที่ใกล้จะเริ่ม (ภายใน 3 วัน) */
+      next,
+      cookies: cookiesPerFeed(active),
+    }),
+    [active, next]
+  );
+}
+
+export type LiveEventState = ReturnType<typeof useLiveEvent>;
+
+/** ms ที่เหลือถึง target (เดินทุกวินาที) — undefined = ไม่นับ, คืน 0 */
+export function useCountdown(target?: number, schedule = liveEvents) {
+  const [now, setNow] = useState(schedule.now);
+
+  useEffect(() => {
+    if (target == null) return;
+    setNow(schedule.now());
+    const timer = window.setInterval(() => setNow(schedule.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [target, schedule]);
+
+  return target == null ? 0 : Math.max(0, target - now);
+}
@@ -0,0 +1,102 @@
+/* ====== Hamster needs: หิว / อารมณ์ / พลังงาน ตามเวลาจริง ======
+   เก็บแค่ค่า ณ เวลาที่อัปเดตล่าสุด แล้วคำนวณต่อไปถึง "ตอนนี้" ทีละชั่วโมง
+   → ปิดแท็บไปหลายวันแล้วเปิดใหม่ก็ได้ค่าเดิมทุกครั้ง (deterministic)
+*/
+
+export type Needs = {
+  /** 0 = อิ่มแปล้, 100 = หิวสุด ๆ */
+  hunger: number;
+  /** 0–100 */
+  happiness: number;
+  /** 0–100 */
+  energy: number;
+  asleep: boolean;
+  /** epoch ms ที่ค่าข้างบนเป็นจริง */
+  at: number;
+};
+
+export const RATES = {
+  hungerPerHour: 10,
+  /** อารมณ์ค่อย ๆ กลับเข้าหา 50 */
+  happinessDriftPerHour: 3,
+  /** หิวเกิน starvingAt → อารมณ์เสียเพิ่ม */
+  starvingAt: 75,
+  starvingHappinessPerHour: 4,
+  energyAwakePerHour: 3,
+  energyAsleepPerHour: 20,
+  sleepBelow: 10,
+  wakeAt: 90,
+} as const;
+
+export const EFFECTS = {
+  feed: { hunger: -20, happiness: 8, energy: -3 },
+  skip: { hunger: 0, happiness: -15, energy: 0 },
+} as const;
+
+export type NeedsAction = keyof typeof EFFECTS;
+
+const HOUR_MS = 60 * 60 * 1000;
+/** ไม่ต้องคำนวณเกิน 14 วัน — ถึงตอนนั้นทุกค่าอิ่มตัวแล้ว */
+const MAX_CATCH_UP_MS = 14 * 24 * HOUR_MS;
+
+const clamp = (n: number) => Math.min(100, Math.max(0, n));
+
+export const initialNeeds = (at: number): Needs => ({
+  hunger: 80,
+  happiness: 60,
+  energy: 80,
+  asleep: false,
+  at,
+});
+
+/** เดินเวลาไปทีละไม่เกิน 1 ชม. (ช่วงสุดท้ายเป็นเศษ) */
+export function advanceNeeds(needs: Needs, to: number): Needs {
+  if (to <= needs.at) return needs;
+  let n = { ...needs };
+  let t = Math.max(needs.at, to - MAX_CATCH_UP_MS);
+
+  while (t < to) {
+    const h = Math.min(HOUR_MS, to - t) / HOUR_MS;
+    // อารมณ์เข้าหา 50 แต่ไม่เลยไปอีกฝั่ง
+    const drift = RATES.happinessDriftPerHour * h;
+    const settled =
+      n.happiness < 50
+        ? Math.min(50, n.happiness + drift)
+        : Math.max(50, n.happiness - drift);
+    const starving =
+      n.hunger >= RATES.starvingAt ? RATES.starvingHappinessPerHour * h : 0;
+
+    n = {
+      ...n,
+      // นอนหลับหิวช้าลงครึ่งหนึ่ง
+      hunger: clamp(n.hunger + RATES.hungerPerHour * h * (n.asleep ? 0.5 : 1)),
+      happiness: clamp(settled - starving),
+      energy: clamp(
+        n.energy +
+          (n.asleep ? RATES.energyAsleepPerHour : -RATES.energyAwakePerHour) * h
+      ),
+    };
+    if (n.asleep && n.energy >= RATES.wakeAt) n.asleep = false;
+    else if (!n.asleep && n.energy < RATES.sleepBelow) n.asleep = true;
+    t += h * HOUR_MS;
+  }
+  return { ...n, at: to };
+}
+
+/** กด Feed/Skip ณ เวลา at */
+export function applyAction(
+  needs: Needs,
+  action: NeedsAction,
+  at: number
+): Needs {
+  const n = advanceNeeds(needs, at);
+  const fx = EFFECTS[action];
+  const energy = clamp(n.energy + fx.energy);
+  return {
+    hunger: clamp(n.hunger + fx.hunger),
+    happiness: clamp(n.happiness + fx.happiness),
+    energy,
+    asleep: n.asleep || energy < RATES.sleepBelow,
+    at,
+  };
+}
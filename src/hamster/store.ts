@@ -0,0 +1,67 @@
+import {
+  appStorage,
+  defineKey,
+  isFiniteNumber,
+  recordOf,
+  shape,
+  type AppStorage,
+} from "../storage";
+import {
+  applyAction,
+  advanceNeeds,
+  initialNeeds,
+  type Needs,
+  type NeedsAction,
+} from "./needs";
+
+/* ====== เก็บ needs ของแฮมสเตอร์แยกตาม profile ====== */
+export const NEEDS_KEY = defineKey<Record<string, Needs>>(
+  "hamsterNeeds",
+  () => ({}),
+  recordOf(
+    shape<Needs>({
+      hunger: isFiniteNumber,
+      happiness: isFiniteNumber,
+      energy: isFiniteNumber,
+      asleep: (v) => typeof v === "boolean",
+      at: isFiniteNumber,
+    })
+  )
+);
+
+export function createNeedsStore(
+  storage: AppStorage = appStorage,
+  now: () => number = Date.now
+) {
+  const readAll = () => storage.read(NEEDS_KEY);
+
+  return {
+    /** ค่า ณ ตอนนี้ (คำนวณจากเวลาที่เก็บไว้) — ครั้งแรกเริ่มนับเวลาจากตอนนี้ */
+    get(profileId: string): Needs {
+      const all = readAll();
+      if (!all[profileId]) {
+        all[profileId] = initialNeeds(now());
+        storage.write(NEEDS_KEY, all);
+      }
+      return advanceNeeds(all[profileId], now());
+    },
+    apply(profileId: string, action: NeedsAction): Needs {
+      const all = readAll();
+      const next = applyAction(
+        all[profileId] || initialNeeds(now()),
+        action,
+        now()
+      );
+      all[profileId] = next;
+      storage.write(NEEDS_KEY, all);
+      return next;
+    },
+    remove(profileId: string) {
+      const all = readAll();
+      delete all[profileId];
+      storage.write(NEEDS_KEY, all);
+    },
+  };
+}
+
+export const needsStore = createNeedsStore();
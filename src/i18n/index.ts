@@ -0,0 +1,125 @@
+import { appStorage, defineKey, type AppStorage } from "../storage";
+import en from "./locales/en";
+import type { Catalog, Message, MessageKey, Vars } from "./types";
+
+export type { Catalog, MessageKey, Vars } from "./types";
+
+/* ====== i18n: ไฟล์ภาษาใน ./locales/*.ts → key = ชื่อไฟล์ (en, th, ...) ======
+   เพิ่มภาษาใหม่ = เพิ่มไฟล์เดียว ไม่ต้องแก้ที่อื่น
+*/
+const localeModules = import.meta.glob<Catalog>("./locales/*.ts", {
+  eager: true,
+  import: "default",
+});
+
+export const CATALOGS: Record<string, Catalog> = Object.fromEntries(
+  Object.entries(localeModules).map(([path, cat]) => [
+    path.replace(/^.*\/|\.ts$/g, ""),
+    cat,
+  ])
+);
+
+export const LOCALES = Object.keys(CATALOGS);
+export const FALLBACK_LOCALE = "en";
+/** ภาษาที่ผู้เล่นเลือกเอง ("" = ยังไม่เลือก → ตามเบราว์เซอร์) */
+export const LOCALE_KEY = defineKey(
+  "locale",
+  () => "",
+  (v) => (typeof v === "string" && CATALOGS[v] ? v : undefined),
+  { text: true }
+);
+
+/** "th-TH" → "th" ถ้ามีไฟล์ภาษานั้น */
+export function matchLocale(tags: readonly string[]): string | undefined {
+  for (const tag of tags) {
+    const lang = tag.toLowerCase().split("-")[0];
+    if (CATALOGS[lang]) return lang;
+  }
+  return undefined;
+}
+
+/** ภาษาที่ผู้ใช้เลือกไว้ → ภาษาเบราว์เซอร์ → en */
+export function detectLocale(
+  storage: AppStorage = appStorage,
+  languages: readonly string[] = navigator.languages || [navigator.language]
+) {
+  return storage.read(LOCALE_KEY) || matchLocale(languages) || FALLBACK_LOCALE;
+}
+
+/** Intl ใช้ locale เต็ม — ไทยใช้ th-TH (ปี พ.ศ., คั่นหลักพัน) */
+export const intlLocale = (locale: string) =>
+  locale === "th" ? "th-TH" : locale;
+
+export function createTranslator(locale: string) {
+  const cat = CATALOGS[locale] || CATALOGS[FALLBACK_LOCALE];
+  const tag = intlLocale(locale);
+  const plural = new Intl.PluralRules(tag);
+  const num = new Intl.NumberFormat(tag);
+
+  const n = (value: number) => num.format(value);
+
+  const pick = (msg: Message, vars: Vars) => {
+    if (typeof msg === "string") return msg;
+    const count = Number(vars.count ?? 0);
+    return msg[plural.select(count)] ?? msg.other;
+  };
+
+  /** ข้อความตาม key — {name} ในข้อความแทนด้วย vars, ตัวเลขจัดรูปตามภาษา */
+  const t = (key: MessageKey, vars: Vars = {}) => {
+    const msg: Message | undefined =
+      cat.messages[key] ?? (en.messages as Catalog["messages"])[key];
+    if (msg == null) return key;
+    return pick(msg, vars).replace(/\{(\w+)\}/g, (all, name: string) => {
+      const v = vars[name];
+      if (v == null) return all;
+      return typeof v === "number" ? n(v) : v;
+    });
+  };
+
+  /** key ที่ประกอบตอนรัน (เช่น badge.<id>.title) — ไม่มีใน catalog = fallback */
+  const tDynamic = (key: string, fallback: string, vars?: Vars) =>
+    key in en.messages ? t(key as MessageKey, vars) : fallback;
+
+  const date = (ts: number) => new Date(ts).toLocaleDateString(tag);
+
+  return { locale, t, tDynamic, n, date };
+}
+
+export type Translator = ReturnType<typeof createTranslator>;
+
+/* ====== store ภาษาปัจจุบัน (useSyncExternalStore) ====== */
+export function createLocaleStore(storage: AppStorage = appStorage) {
+  let current = createTranslator(detectLocale(storage));
+  const listeners = new Set<() => void>();
+
+  const apply = (locale: string) => {
+    current = createTranslator(locale);
+    document.documentElement.lang = locale;
+    listeners.forEach((l) => l());
+  };
+
+  return {
+    getState: () => current,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setLocale(locale: string) {
+      if (!CATALOGS[locale] || locale === current.locale) return;
+      storage.write(LOCALE_KEY, locale);
+      apply(locale);
+    },
+    /** แท็บอื่นเปลี่ยนภาษา — คืนฟังก์ชันเลิกฟัง */
+    watch() {
+      return storage.watch(LOCALE_KEY, () => {
+        const saved = storage.read(LOCALE_KEY);
+        if (saved && saved !== current.locale) apply(saved);
+      });
+    },
+  };
+}
+
+export const localeStore = createLocaleStore();
+document.documentElement.lang = localeStore.getState().locale;
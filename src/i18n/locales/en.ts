@@ -0,0 +1,268 @@
+/* ====== English (ภาษาหลัก — key ทั้งหมดต้องมีในไฟล์นี้) ====== */
+const en = {
+  meta: { name: "English" },
+  messages: {
+    "locale.switch": "Language",
+    "theme.switch": "Theme",
+    "theme.system": "🖥️ Auto",
+    "theme.light": "☀️ Light",
+    "theme.dark": "🌙 Dark",
+    "theme.halloween": "🎃 Halloween",
+    "theme.winter": "❄️ Winter",
+
+    "top3.title": "🏆 TOP 3",
+    "top3.aria": "Top feeders",
+    "top3.refresh": "Refresh",
+    "top3.refreshAria": "Refresh leaderboard",
+    "top3.periodAria": "Leaderboard period",
+    "top3.tab.day": "Today",
+    "top3.tab.week": "Week",
+    "top3.tab.all": "All",
+    "top3.empty": "Try feeding it!",
+    "top3.feeds": { one: "{count} feed", other: "{count} feeds" },
+    "top3.claimed": "Claimed handle",
+    "top3.unclaimed": "Unclaimed handle — anyone can feed as it",
+    "top3.kindAria": "Leaderboard type",
+    "top3.players": "👤 Players",
+    "top3.teams": "👥 Teams",
+    "top3.teamsEmpty": "No teams yet — create one!",
+    "top3.members": { one: "{count} member", other: "{count} members" },
+    "top3.seeAll": "See full leaderboard →",
+    "top3.live": "🔴 Live",
+    "top3.autoUpdate": "(Auto-updates every 20 seconds)",
+
+    "common.loading": "Loading…",
+    "common.failed": "Failed to load",
+    "common.close": "Close",
+    "sync.pending": "{count} pending sync",
+
+    "audio.mute": "Mute sound",
+    "audio.unmute": "Unmute sound",
+    "audio.volume": "Volume",
+
+    "profile.edit": "Edit name/IG",
+    "profile.badges": "Badges",
+    "profile.share": "Share hamster card",
+    "profile.shareShort": "Share",
+    "profile.switch": "Switch player",
+    "profile.switchAria": "Switch player profile",
+    "profile.add": "➕ Add player…",
+    "profile.new": "➕ New player",
+    "profile.delete": "🗑 Delete {ig}",
+    "profile.deleteConfirm": "Delete {ig} ({name})?",
+    "profile.transfer": "Backup / move to another phone",
+
+    "transfer.title": "💾 Backup & transfer",
+    "transfer.export": "Export",
+    "transfer.import": "Import",
+    "transfer.exportHint":
+      "Scan this QR code with your other phone, or save the backup file for {ig}.",
+    "transfer.qrTooBig":
+      "Too much history for a QR code — use the file instead.",
+    "transfer.download": "⬇️ Save backup",
+    "transfer.copy": "📋 Copy",
+    "transfer.copied": "✅ Copied",
+    "transfer.importHint":
+      "Choose a backup file, or paste the backup text or the QR link.",
+    "transfer.file": "Backup file",
+    "transfer.paste": "Paste backup here",
+    "transfer.check": "Check",
+    "transfer.previewNew": "➕ New player on this device",
+    "transfer.previewMerge": "🔀 Merges with the player already on this device",
+    "transfer.previewBadges": {
+      one: "{count} new badge",
+      other: "{count} new badges",
+    },
+    "transfer.merge": "Merge into this device",
+    "transfer.error.format": "This isn't a hamster backup.",
+    "transfer.error.version":
+      "This backup is from a newer version — update the game first.",
+    "transfer.error.checksum": "This backup was edited or damaged.",
+    "transfer.shareTitle": "My hamster backup",
+
+    "onboard.back": "Back to game",
+    "onboard.hamsterName": "🐹 Hamster's name",
+    "onboard.hamsterPlaceholder": "Sample NUNU",
+    "onboard.hamsterAria": "Hamster name",
+    "onboard.ig": "👫 Your Instagram",
+    "onboard.igAria": "Player Instagram",
+    "onboard.start": "Start",
+    "onboard.hint1": "Enter your name and Instagram in the format @username",
+    "onboard.hint2": "(letters, numbers, . or _, 1–30 characters).",
+    "onboard.restore": "💾 Restore from backup",
+
+    "claim.newPin": "🔒 Recovery PIN",
+    "claim.linkPin": "🔑 Owner's PIN",
+    "claim.link": "Link device",
+    "claim.linking": "Linking…",
+    "claim.checking": "Checking handle…",
+    "claim.wrongPin": "Wrong PIN — this device is not linked.",
+    "claim.hint.claim":
+      "Set a 4–6 digit PIN. It claims this handle for this device and lets you link another device later.",
+    "claim.hint.link":
+      "This handle is claimed on another device. Enter its PIN to link this device.",
+    "claim.hint.mine": "🔒 This handle is yours on this device.",
+
+    "team.label": "👥 Team (optional)",
+    "team.codePlaceholder": "Team code",
+    "team.namePlaceholder": "New team name",
+    "team.create": "+ Create a new team",
+    "team.join": "Join with a code instead",
+    "team.soloHint": "Enter a friend's team code, or leave empty to play solo.",
+    "team.createHint": "You'll get a code to share after you start.",
+    "team.badCode": "Team codes are {length} letters or digits.",
+    "team.found": "Joining “{name}”",
+    "team.notFound": "No team uses this code yet — check it with your friend.",
+    "team.aria": "Team page",
+    "team.open": "Team page",
+    "team.code": "Code",
+    "team.copy": "Copy",
+    "team.copied": "Copied!",
+    "team.total": {
+      one: "{count} cookie for the team",
+      other: "{count} cookies for the team",
+    },
+    "team.empty": "Nobody has fed for this team yet.",
+
+    "player.aria": "Player page",
+    "player.open": "Player page",
+    "player.by": "{ig}'s hamster",
+    "player.total": {
+      one: "{count} cookie fed",
+      other: "{count} cookies fed",
+    },
+    "player.referrals": {
+      one: "Brought {count} friend to the game",
+      other: "Brought {count} friends to the game",
+    },
+    "player.unknown": "{ig} hasn't started playing yet.",
+    "player.copyLink": "Copy link",
+    "player.play": "🐹 Play too",
+    "player.feed": "🍪 Feed",
+    "player.given": {
+      one: "You gave {count} cookie 💝",
+      other: "You gave {count} cookies 💝",
+    },
+    "player.gifted": {
+      one: "Gave {count} cookie to friends' hamsters",
+      other: "Gave {count} cookies to friends' hamsters",
+    },
+    "player.visitors": "👋 Recent visitors",
+
+    "reminder.aria": "Hunger reminders",
+    "reminder.heading": "🔔 Remind me to feed {name}",
+    "reminder.hint":
+      "Get a notification on this device when {name} hasn't been fed for a while. Only for this player.",
+    "reminder.after": "Remind after",
+    "reminder.hours": { one: "{count} hour", other: "{count} hours" },
+    "reminder.quiet": "Quiet hours",
+    "reminder.quietStart": "Quiet hours start",
+    "reminder.quietEnd": "Quiet hours end",
+    "reminder.on": "🔔 Turn on reminders",
+    "reminder.off": "🔕 Turn off reminders",
+    "reminder.isOn": "Reminders are on.",
+    "reminder.isOff": "Reminders are off.",
+    "reminder.denied":
+      "Notifications are blocked for this site — allow them in your browser settings first.",
+    "reminder.unsupported": "This browser can't show notifications.",
+    "reminder.title": "{name} is hungry 🍪",
+    "reminder.body":
+      "Nobody has fed {name} for a while — come back with a cookie!",
+
+    "event.live": "🎉 {name} · ends in {time}",
+    "event.soon": "⏳ {name} starts in {time}",
+    "event.cookies": "🍪 ×{count} per feed",
+    "event.counterAria": "{name}: ends in {time}",
+
+    "game.feed": "Feed",
+    "game.skip": "Skip",
+    "game.restart": "Restart",
+
+    "minigame.play": "🎮 Catch cookies",
+    "minigame.title": "🍪 Cookie catch",
+    "minigame.help":
+      "Drag or use ← → to catch cookies and dodge the chillies. Every {per} cookies = 1 feed (max {max}).",
+    "minigame.result": {
+      one: "You caught {count} cookie → {feeds} feed!",
+      other: "You caught {count} cookies → {feeds} feeds!",
+    },
+    "minigame.nothing": "Catch at least {per} cookies to feed your hamster.",
+    "minigame.feed": { one: "Feed {count} time", other: "Feed {count} times" },
+    "minigame.slow": "This device is a bit slow for the mini-game — tap Feed instead.",
+
+    "stats.title": "📊 Gameplay stats",
+    "stats.back": "← Back to the game",
+    "stats.source": "Data",
+    "stats.live": "Backend",
+    "stats.fixture": "Fixture: {name}",
+    "stats.period": "Period",
+    "stats.empty": "No analytics events in this period yet.",
+    "stats.range": "{from} – {to}",
+    "stats.sessions": "Sessions",
+    "stats.players": "Devices",
+    "stats.events": "Events",
+    "stats.avgSession": "Avg session",
+    "stats.medianSession": "Median session",
+    "stats.restarts": "Restarts / session",
+    "stats.funnel": "Funnel",
+    "stats.screen": "Screen",
+    "stats.reach": "Reached",
+    "stats.feeds": "Feeds",
+    "stats.skips": "Skips",
+    "stats.dropOff": "Left here",
+    "stats.retention": "Retention",
+    "stats.d1": "Day 1",
+    "stats.d7": "Within 7 days",
+    "stats.ofDevices": "{count} of {total} devices",
+    "stats.errors": "Errors",
+    "stats.errorSessions": "Sessions with a load failure",
+    "stats.refreshFailed": "Leaderboard refresh failures",
+    "stats.refreshTime": "Avg refresh time",
+    "stats.ofTotal": "{count} of {total}",
+    "stats.noErrors": "No load failures 🎉",
+
+    "needs.full": "Full",
+    "needs.happy": "Happy",
+    "needs.energy": "Energy",
+
+    "board.title": "🏆 Leaderboard",
+    "board.aria": "Full leaderboard",
+    "board.you": "You are #{rank} of {total}",
+    "board.show": "show",
+    "board.notYet": "{ig} hasn't fed yet — go feed!",
+    "board.search": "Search @username",
+    "board.searchAria": "Search Instagram handle",
+    "board.noResults": "No players found",
+
+    "badges.unlockedToast": "Badge unlocked:",
+    "badges.unlockedOn": "Unlocked {date}",
+    "badges.locked": "Locked",
+    "badge.first_feed.title": "First cookie",
+    "badge.first_feed.desc": "Feed your hamster for the first time",
+    "badge.cookies_10.title": "Snack dealer",
+    "badge.cookies_10.desc": "10 cookies fed",
+    "badge.cookies_100.title": "Cookie jar",
+    "badge.cookies_100.desc": "100 cookies fed",
+    "badge.cookies_1000.title": "Cookie factory",
+    "badge.cookies_1000.desc": "1,000 cookies fed",
+    "badge.streak_7.title": "Weekly regular",
+    "badge.streak_7.desc": "Feed on 7 days in a row",
+    "badge.night_owl.title": "Night owl",
+    "badge.night_owl.desc": "Feed between midnight and 5 am",
+    "badge.overdose.title": "Food coma",
+    "badge.overdose.desc": "Reach the overdosed-on-cookies ending",
+    "badge.killer_10.title": "Living dangerously",
+    "badge.killer_10.desc": "Meet the killer hamster 10 times",
+    "badge.sweet_dreams.title": "Sweet dreams",
+    "badge.sweet_dreams.desc": "Play until your hamster falls asleep",
+
+    "card.headline": "🐹 Feed my hamster!",
+    "card.by": "by {ig}",
+    "card.rank": "🏆 Rank #{rank} of {total}",
+    "card.rankOnly": "🏆 Rank #{rank}",
+    "card.unranked": "🏆 Not ranked yet",
+    "card.shareTitle": "My hamster",
+  },
+} as const;
+
+export default en;
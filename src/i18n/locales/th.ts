@@ -0,0 +1,246 @@
+import type { Catalog } from "../types";
+
+/* ====== ภาษาไทย ====== */
+const th: Catalog = {
+  meta: { name: "ไทย" },
+  messages: {
+    "locale.switch": "ภาษา",
+    "theme.switch": "ธีม",
+    "theme.system": "🖥️ ตามเครื่อง",
+    "theme.light": "☀️ สว่าง",
+    "theme.dark": "🌙 มืด",
+    "theme.halloween": "🎃 ฮาโลวีน",
+    "theme.winter": "❄️ หน้าหนาว",
+
+    "top3.title": "🏆 TOP 3",
+    "top3.aria": "คนป้อนเยอะสุด",
+    "top3.refresh": "รีเฟรช",
+    "top3.refreshAria": "รีเฟรชอันดับ",
+    "top3.periodAria": "ช่วงเวลาของอันดับ",
+    "top3.tab.day": "วันนี้",
+    "top3.tab.week": "สัปดาห์",
+    "top3.tab.all": "ทั้งหมด",
+    "top3.empty": "ลองป้อนคุกกี้ดูสิ!",
+    "top3.feeds": { other: "{count} ครั้ง" },
+    "top3.claimed": "IG นี้มีเจ้าของแล้ว",
+    "top3.unclaimed": "IG นี้ยังไม่มีใครจอง — ใครก็ป้อนในชื่อนี้ได้",
+    "top3.kindAria": "ประเภทอันดับ",
+    "top3.players": "👤 ผู้เล่น",
+    "top3.teams": "👥 ทีม",
+    "top3.teamsEmpty": "ยังไม่มีทีม — สร้างเลย!",
+    "top3.members": { other: "สมาชิก {count} คน" },
+    "top3.seeAll": "ดูอันดับทั้งหมด →",
+    "top3.live": "🔴 สด",
+    "top3.autoUpdate": "(อัปเดตอัตโนมัติทุก 20 วินาที)",
+
+    "common.loading": "กำลังโหลด…",
+    "common.failed": "โหลดไม่สำเร็จ",
+    "common.close": "ปิด",
+    "sync.pending": "รอซิงก์ {count} รายการ",
+
+    "audio.mute": "ปิดเสียง",
+    "audio.unmute": "เปิดเสียง",
+    "audio.volume": "ระดับเสียง",
+
+    "profile.edit": "แก้ชื่อ/IG",
+    "profile.badges": "เหรียญรางวัล",
+    "profile.share": "แชร์การ์ดแฮมสเตอร์",
+    "profile.shareShort": "แชร์",
+    "profile.switch": "สลับผู้เล่น",
+    "profile.switchAria": "สลับโปรไฟล์ผู้เล่น",
+    "profile.add": "➕ เพิ่มผู้เล่น…",
+    "profile.new": "➕ ผู้เล่นใหม่",
+    "profile.delete": "🗑 ลบ {ig}",
+    "profile.deleteConfirm": "ลบ {ig} ({name}) ใช่ไหม?",
+    "profile.transfer": "สำรองข้อมูล / ย้ายเครื่อง",
+
+    "transfer.title": "💾 สำรองและย้ายข้อมูล",
+    "transfer.export": "ส่งออก",
+    "transfer.import": "นำเข้า",
+    "transfer.exportHint":
+      "สแกน QR นี้ด้วยมือถืออีกเครื่อง หรือบันทึกไฟล์สำรองของ {ig} ไว้",
+    "transfer.qrTooBig": "ประวัติเยอะเกินใส่ QR — ใช้ไฟล์แทนนะ",
+    "transfer.download": "⬇️ บันทึกไฟล์สำรอง",
+    "transfer.copy": "📋 คัดลอก",
+    "transfer.copied": "✅ คัดลอกแล้ว",
+    "transfer.importHint": "เลือกไฟล์สำรอง หรือวางข้อความ/ลิงก์จาก QR",
+    "transfer.file": "ไฟล์สำรอง",
+    "transfer.paste": "วางข้อมูลสำรองที่นี่",
+    "transfer.check": "ตรวจสอบ",
+    "transfer.previewNew": "➕ เพิ่มเป็นผู้เล่นใหม่ในเครื่องนี้",
+    "transfer.previewMerge": "🔀 รวมกับผู้เล่นที่มีอยู่แล้วในเครื่องนี้",
+    "transfer.previewBadges": { other: "เหรียญใหม่ {count} อัน" },
+    "transfer.merge": "รวมเข้าเครื่องนี้",
+    "transfer.error.format": "ไม่ใช่ไฟล์สำรองของเกมแฮมสเตอร์",
+    "transfer.error.version": "ไฟล์นี้มาจากเวอร์ชันใหม่กว่า — อัปเดตเกมก่อนนะ",
+    "transfer.error.checksum": "ไฟล์สำรองถูกแก้ไขหรือเสียหาย",
+    "transfer.shareTitle": "ไฟล์สำรองแฮมสเตอร์ของฉัน",
+
+    "onboard.back": "กลับไปเล่นต่อ",
+    "onboard.hamsterName": "🐹 ชื่อแฮมสเตอร์",
+    "onboard.hamsterPlaceholder": "เช่น NUNU",
+    "onboard.hamsterAria": "ชื่อแฮมสเตอร์",
+    "onboard.ig": "👫 IG ของคุณ",
+    "onboard.igAria": "IG ของผู้เล่น",
+    "onboard.start": "เริ่ม",
+    "onboard.hint1": "ใส่ชื่อแฮมสเตอร์และ IG ในรูปแบบ @username",
+    "onboard.hint2": "(ตัวอักษร ตัวเลข . หรือ _ ยาว 1–30 ตัว)",
+    "onboard.restore": "💾 กู้คืนจากไฟล์สำรอง",
+
+    "claim.newPin": "🔒 PIN กู้คืน",
+    "claim.linkPin": "🔑 PIN ของเจ้าของ",
+    "claim.link": "ผูกเครื่องนี้",
+    "claim.linking": "กำลังผูก…",
+    "claim.checking": "กำลังเช็ก IG…",
+    "claim.wrongPin": "PIN ไม่ถูก — ยังไม่ได้ผูกเครื่องนี้",
+    "claim.hint.claim":
+      "ตั้ง PIN 4–6 หลัก เพื่อจอง IG นี้ให้เครื่องนี้ และใช้ผูกเครื่องอื่นภายหลัง",
+    "claim.hint.link":
+      "IG นี้ถูกจองบนเครื่องอื่นแล้ว ใส่ PIN เพื่อผูกเครื่องนี้",
+    "claim.hint.mine": "🔒 IG นี้เป็นของคุณบนเครื่องนี้",
+
+    "team.label": "👥 ทีม (ไม่ใส่ก็ได้)",
+    "team.codePlaceholder": "รหัสทีม",
+    "team.namePlaceholder": "ชื่อทีมใหม่",
+    "team.create": "+ สร้างทีมใหม่",
+    "team.join": "ใช้รหัสเข้าทีมแทน",
+    "team.soloHint": "ใส่รหัสทีมของเพื่อน หรือเว้นว่างเพื่อเล่นเดี่ยว",
+    "team.createHint": "กดเริ่มแล้วจะได้รหัสไว้แชร์ให้เพื่อน",
+    "team.badCode": "รหัสทีมคือตัวอักษรหรือตัวเลข {length} ตัว",
+    "team.found": "เข้าทีม “{name}”",
+    "team.notFound": "ยังไม่มีทีมที่ใช้รหัสนี้ — เช็กกับเพื่อนอีกที",
+    "team.aria": "หน้าทีม",
+    "team.open": "หน้าทีม",
+    "team.code": "รหัส",
+    "team.copy": "คัดลอก",
+    "team.copied": "คัดลอกแล้ว!",
+    "team.total": { other: "ป้อนให้ทีม {count} ชิ้น" },
+    "team.empty": "ยังไม่มีใครป้อนให้ทีมนี้",
+
+    "player.aria": "หน้าผู้เล่น",
+    "player.open": "หน้าผู้เล่น",
+    "player.by": "แฮมสเตอร์ของ {ig}",
+    "player.total": { other: "ป้อนไปแล้ว {count} ชิ้น" },
+    "player.referrals": { other: "ชวนเพื่อนมาเล่นแล้ว {count} คน" },
+    "player.unknown": "{ig} ยังไม่ได้เริ่มเล่น",
+    "player.copyLink": "คัดลอกลิงก์",
+    "player.play": "🐹 เล่นด้วย",
+    "player.feed": "🍪 ป้อน",
+    "player.given": { other: "เราป้อนให้แล้ว {count} ชิ้น 💝" },
+    "player.gifted": { other: "ป้อนให้แฮมสเตอร์ของเพื่อนแล้ว {count} ชิ้น" },
+    "player.visitors": "👋 คนที่มาเยี่ยมล่าสุด",
+
+    "reminder.aria": "เตือนแฮมสเตอร์หิว",
+    "reminder.heading": "🔔 เตือนให้ป้อน {name}",
+    "reminder.hint":
+      "แจ้งเตือนบนเครื่องนี้เมื่อ {name} ไม่ได้กินมาสักพัก (เฉพาะผู้เล่นคนนี้)",
+    "reminder.after": "เตือนเมื่อไม่ได้ป้อน",
+    "reminder.hours": { other: "{count} ชั่วโมง" },
+    "reminder.quiet": "ช่วงห้ามรบกวน",
+    "reminder.quietStart": "เริ่มช่วงห้ามรบกวน",
+    "reminder.quietEnd": "จบช่วงห้ามรบกวน",
+    "reminder.on": "🔔 เปิดการเตือน",
+    "reminder.off": "🔕 ปิดการเตือน",
+    "reminder.isOn": "เปิดการเตือนอยู่",
+    "reminder.isOff": "ปิดการเตือนอยู่",
+    "reminder.denied":
+      "เว็บนี้ถูกบล็อกการแจ้งเตือน — อนุญาตในตั้งค่าเบราว์เซอร์ก่อนนะ",
+    "reminder.unsupported": "เบราว์เซอร์นี้แสดงการแจ้งเตือนไม่ได้",
+    "reminder.title": "{name} หิวแล้ว 🍪",
+    "reminder.body":
+      "ไม่มีใครป้อน {name} มาสักพักแล้ว — กลับมาป้อนคุกกี้หน่อย!",
+
+    "event.live": "🎉 {name} · เหลือ {time}",
+    "event.soon": "⏳ {name} เริ่มในอีก {time}",
+    "event.cookies": "🍪 ×{count} ต่อครั้ง",
+    "event.counterAria": "{name}: เหลือเวลา {time}",
+
+    "game.feed": "ป้อน",
+    "game.skip": "ไม่ให้",
+    "game.restart": "เริ่มใหม่",
+
+    "minigame.play": "🎮 เกมรับคุกกี้",
+    "minigame.title": "🍪 รับคุกกี้",
+    "minigame.help":
+      "ลากหรือกด ← → เพื่อรับคุกกี้ หลบพริกด้วย! ทุก {per} ชิ้น = ป้อน 1 ครั้ง (สูงสุด {max})",
+    "minigame.result": { other: "รับได้ {count} ชิ้น → ป้อน {feeds} ครั้ง!" },
+    "minigame.nothing": "รับให้ได้อย่างน้อย {per} ชิ้นถึงจะได้ป้อนนะ",
+    "minigame.feed": { other: "ป้อน {count} ครั้ง" },
+    "minigame.slow": "เครื่องนี้เล่นมินิเกมแล้วกระตุก — กดป้อนธรรมดาแทนนะ",
+
+    "stats.title": "📊 สถิติการเล่น",
+    "stats.back": "← กลับไปเล่น",
+    "stats.source": "ข้อมูล",
+    "stats.live": "Backend",
+    "stats.fixture": "Fixture: {name}",
+    "stats.period": "ช่วงเวลา",
+    "stats.empty": "ยังไม่มี event analytics ในช่วงนี้",
+    "stats.range": "{from} – {to}",
+    "stats.sessions": "Session",
+    "stats.players": "เครื่อง",
+    "stats.events": "Event",
+    "stats.avgSession": "เล่นเฉลี่ย",
+    "stats.medianSession": "เล่น (มัธยฐาน)",
+    "stats.restarts": "Restart ต่อ session",
+    "stats.funnel": "Funnel",
+    "stats.screen": "ฉาก",
+    "stats.reach": "มาถึง",
+    "stats.feeds": "ป้อน",
+    "stats.skips": "ข้าม",
+    "stats.dropOff": "เลิกเล่นตรงนี้",
+    "stats.retention": "กลับมาเล่น",
+    "stats.d1": "วันถัดไป",
+    "stats.d7": "ภายใน 7 วัน",
+    "stats.ofDevices": "{count} จาก {total} เครื่อง",
+    "stats.errors": "ข้อผิดพลาด",
+    "stats.errorSessions": "Session ที่โหลดอะไรไม่ขึ้น",
+    "stats.refreshFailed": "โหลด leaderboard ไม่สำเร็จ",
+    "stats.refreshTime": "เวลาโหลดเฉลี่ย",
+    "stats.ofTotal": "{count} จาก {total}",
+    "stats.noErrors": "ไม่มีอะไรพัง 🎉",
+
+    "needs.full": "อิ่ม",
+    "needs.happy": "อารมณ์",
+    "needs.energy": "พลัง",
+
+    "board.title": "🏆 อันดับทั้งหมด",
+    "board.aria": "อันดับทั้งหมด",
+    "board.you": "คุณอยู่อันดับ #{rank} จาก {total} คน",
+    "board.show": "ดู",
+    "board.notYet": "{ig} ยังไม่เคยป้อนเลย — ไปป้อนกัน!",
+    "board.search": "ค้นหา @username",
+    "board.searchAria": "ค้นหา IG",
+    "board.noResults": "ไม่พบผู้เล่น",
+
+    "badges.unlockedToast": "ได้เหรียญใหม่:",
+    "badges.unlockedOn": "ได้เมื่อ {date}",
+    "badges.locked": "ยังไม่ปลดล็อก",
+    "badge.first_feed.title": "คุกกี้ชิ้นแรก",
+    "badge.first_feed.desc": "ป้อนแฮมสเตอร์ครั้งแรก",
+    "badge.cookies_10.title": "สายขนม",
+    "badge.cookies_10.desc": "ป้อนครบ 10 ชิ้น",
+    "badge.cookies_100.title": "โหลคุกกี้",
+    "badge.cookies_100.desc": "ป้อนครบ 100 ชิ้น",
+    "badge.cookies_1000.title": "โรงงานคุกกี้",
+    "badge.cookies_1000.desc": "ป้อนครบ 1,000 ชิ้น",
+    "badge.streak_7.title": "ขาประจำ",
+    "badge.streak_7.desc": "ป้อนติดกัน 7 วัน",
+    "badge.night_owl.title": "นกฮูกกลางคืน",
+    "badge.night_owl.desc": "ป้อนช่วงเที่ยงคืนถึงตีห้า",
+    "badge.overdose.title": "อิ่มจนสลบ",
+    "badge.overdose.desc": "ไปถึงฉากคุกกี้เกินขนาด",
+    "badge.killer_10.title": "ชอบเสี่ยง",
+    "badge.killer_10.desc": "เจอแฮมสเตอร์นักฆ่า 10 ครั้ง",
+    "badge.sweet_dreams.title": "ฝันดีนะ",
+    "badge.sweet_dreams.desc": "เล่นจนแฮมสเตอร์หลับ",
+
+    "card.headline": "🐹 มาป้อนแฮมสเตอร์ของฉันหน่อย!",
+    "card.by": "โดย {ig}",
+    "card.rank": "🏆 อันดับ #{rank} จาก {total}",
+    "card.rankOnly": "🏆 อันดับ #{rank}",
+    "card.unranked": "🏆 ยังไม่มีอันดับ",
+    "card.shareTitle": "แฮมสเตอร์ของฉัน",
+  },
+};
+
+export default th;
@@ -0,0 +1,15 @@
+import type en from "./locales/en";
+
+/** ข้อความธรรมดา หรือแยกตาม plural category (Intl.PluralRules) */
+export type Message =
+  string | (Partial<Record<Intl.LDMLPluralRule, string>> & { other: string });
+
+export type MessageKey = keyof (typeof en)["messages"];
+
+/** ไฟล์ภาษาใหม่ใส่ key ไม่ครบได้ — ที่ขาดจะใช้ภาษาอังกฤษแทน */
+export type Catalog = {
+  meta: { name: string };
+  messages: Partial<Record<MessageKey, Message>>;
+};
+
+export type Vars = Record<string, string | number>;
@@ -0,0 +1,13 @@
+import { useEffect, useSyncExternalStore } from "react";
+
+import { localeStore } from ".";
+
+/* ====== Hook: ตัวแปลภาษาปัจจุบัน (render ใหม่เมื่อสลับภาษา) ====== */
+export function useI18n() {
+  const tr = useSyncExternalStore(localeStore.subscribe, localeStore.getState);
+
+  // sync ข้ามแท็บ
+  useEffect(() => localeStore.watch(), []);
+
+  return { ...tr, setLocale: localeStore.setLocale };
+}
@@ -0,0 +1,88 @@
+/* ====== HTTP helpers (timeout & JSONP fallback) ====== */
+export async function fetchWithTimeout(
+  input: RequestInfo,
+  ms = 6000,
+  init: RequestInit = {}
+) {
+  const ctrl = new AbortController();
+  const id = setTimeout(() => ctrl.abort(), ms);
+  try {
+    const res = await fetch(input, {
+      signal: ctrl.signal,
+      cache: "no-store",
+      credentials: "omit",
+      ...init,
+    });
+    return res;
+  } finally {
+    clearTimeout(id);
+  }
+}
+
+type JsonpWindow = Window & Record<string, unknown>;
+
+/** JSONP helper — ข้าม CORS/redirect ได้ */
+export function jsonp<T = unknown>(url: string, timeoutMs = 8000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const cbName = "__jsonp_cb_" + Math.random().toString(36).slice(2);
+    const src = url + (url.includes("?") ? "&" : "?") + "callback=" + cbName;
+    const w = window as unknown as JsonpWindow;
+
+    const script = document.createElement("script");
+
+    w[cbName] = (data: T) => {
+      cleanup();
+      resolve(data);
+    };
+
+    function cleanup() {
+      if (script.parentNode) script.parentNode.removeChild(script);
+      try {
+        delete w[cbName];
+      } catch {
+        // บาง browser ลบ property บน window ไม่ได้ → ปล่อยไว้
+      }
+      window.clearTimeout(timer);
+    }
+
+    script.src = src;
+    script.async = true;
+    script.defer = true;
+    script.onerror = () => {
+      cleanup();
+      reject(new Error("JSONP load error"));
+    };
+    document.head.appendChild(script);
+
+    const timer = window.setTimeout(() => {
+      cleanup();
+      reject(new Error("JSONP timeout"));
+    }, timeoutMs);
+  });
+}
+
+/** server ตอบกลับมาแต่ไม่ใช่ 2xx — เก็บ status ไว้แยก 4xx (ส่งซ้ำก็ไม่ผ่าน) กับ 5xx */
+export class HttpError extends Error {
+  constructor(readonly status: number) {
+    super("HTTP " + status);
+    this.name = "HttpError";
+  }
+}
+
+/** 4xx = request ผิดเอง ส่งซ้ำก็โดนปฏิเสธ (ยกเว้น 408 timeout / 429 rate limit) */
+export const isPermanentHttpError = (e: unknown): e is HttpError =>
+  e instanceof HttpError &&
+  e.status >= 400 &&
+  e.status < 500 &&
+  e.status !== 408 &&
+  e.status !== 429;
+
+/** อ่าน response เป็น JSON (ถ้าโดนหน้า login HTML → JSON.parse จะ throw) */
+export async function readJson<T = unknown>(res: Response): Promise<T> {
+  if (!res.ok) throw new HttpError(res.status);
+  const text = await res.text();
+  return JSON.parse(text) as T;
+}
+
+export const errorMessage = (e: unknown, fallback = "Fetch failed") =>
+  e instanceof Error && e.message ? e.message : fallback;
@@ -0,0 +1,8 @@
+export const isIGValid = (ig: string) =>
+  /^[A-Za-z0-9._]{1,30}$/.test(ig.replace(/^@/, ""));
+
+/** ✅ ใช้ IG แบบ canonical เป็นตัวพิมพ์เล็กเสมอ */
+export const normalizeIG = (ig: string) => {
+  const clean = ig.trim().replace(/^@/, "");
+  return clean ? `@${clean.toLowerCase()}` : "";
+};
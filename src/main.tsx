@@ -2,9 +2,28 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { registerServiceWorker } from "./pwa/register";
+import { parseRoute } from "./router/routes";
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-);
+const root = ReactDOM.createRoot(document.getElementById("root")!);
+
+const { pathname, search } = window.location;
+
+if (parseRoute(pathname, search, import.meta.env.BASE_URL).name === "stats") {
+  // dashboard สถิติ — โหลดแยก chunk เฉพาะตอนเปิด /stats
+  import("./components/StatsPage.tsx").then(({ default: StatsPage }) =>
+    root.render(
+      <React.StrictMode>
+        <StatsPage />
+      </React.StrictMode>,
+    ),
+  );
+} else {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  );
+}
+
+registerServiceWorker();
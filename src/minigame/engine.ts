@@ -0,0 +1,136 @@
+/* ====== เกมรับคุกกี้ (logic ล้วน ไม่แตะ DOM) ======
+   คุกกี้ร่วงจากบน → เลื่อนแฮมสเตอร์ไปรับ; พริกคือของเสีย รับแล้วโดนหักแต้ม
+   step(dt) เดินเวลาเอง → เทสได้ด้วย dt/rng ปลอม
+*/
+export type CatchConfig = {
+  width: number;
+  height: number;
+  durationMs: number;
+  /** ms ระหว่างของที่ร่วงแต่ละชิ้น */
+  spawnMs: number;
+  /** px/s */
+  fallSpeed: number;
+  /** ความกว้างช่วงที่รับได้ (px) */
+  catcherWidth: number;
+  /** px/s ตอนกดปุ่มลูกศรค้าง */
+  catcherSpeed: number;
+  /** โอกาสที่ของที่ร่วงเป็นพริก (0–1) */
+  badChance: number;
+};
+
+export type Drop = { id: number; x: number; y: number; bad: boolean };
+
+export type CatchState = {
+  /** กึ่งกลางตัวรับ */
+  x: number;
+  drops: Drop[];
+  /** คุกกี้ที่รับได้ (หักพริกแล้ว ไม่ต่ำกว่า 0) */
+  score: number;
+  missed: number;
+  timeLeft: number;
+  over: boolean;
+};
+
+/** ความสูงของแถบตัวรับนับจากขอบล่าง */
+export const CATCHER_HEIGHT = 48;
+export const DROP_SIZE = 28;
+
+/** ด่าน 0 (ham1) → 3 (ham4): ร่วงเร็วขึ้น ถี่ขึ้น ตัวรับแคบลง มีพริก */
+export function configFor(
+  level: number,
+  width: number,
+  height: number
+): CatchConfig {
+  const l = Math.max(0, Math.min(3, Math.floor(level)));
+  return {
+    width,
+    height,
+    durationMs: 20000,
+    spawnMs: 900 - l * 140,
+    fallSpeed: 140 + l * 45,
+    catcherWidth: Math.max(56, Math.round(width * (0.3 - l * 0.04))),
+    catcherSpeed: 320 + l * 40,
+    badChance: [0, 0.1, 0.18, 0.25][l],
+  };
+}
+
+export function createCatchGame(
+  config: CatchConfig,
+  rng: () => number = Math.random
+) {
+  const s: CatchState = {
+    x: config.width / 2,
+    drops: [],
+    score: 0,
+    missed: 0,
+    timeLeft: config.durationMs,
+    over: false,
+  };
+  let nextId = 1;
+  let untilSpawn = 0;
+  let dir = 0;
+
+  const clampX = (x: number) =>
+    Math.max(
+      config.catcherWidth / 2,
+      Math.min(config.width - config.catcherWidth / 2, x)
+    );
+
+  return {
+    state: (): Readonly<CatchState> => s,
+    /** นิ้ว/เมาส์: ย้ายไปตรงนั้นเลย */
+    moveTo(x: number) {
+      s.x = clampX(x);
+    },
+    /** คีย์บอร์ด: -1 ซ้าย, 1 ขวา, 0 หยุด */
+    setDirection(d: -1 | 0 | 1) {
+      dir = d;
+    },
+    step(dtMs: number) {
+      if (s.over) return;
+      const dt = Math.min(dtMs, 100);
+      s.timeLeft = Math.max(0, s.timeLeft - dt);
+      s.x = clampX(s.x + (dir * config.catcherSpeed * dt) / 1000);
+
+      untilSpawn -= dt;
+      if (untilSpawn <= 0 && s.timeLeft > 0) {
+        untilSpawn += config.spawnMs;
+        s.drops.push({
+          id: nextId++,
+          x: DROP_SIZE / 2 + rng() * (config.width - DROP_SIZE),
+          y: -DROP_SIZE,
+          bad: rng() < config.badChance,
+        });
+      }
+
+      const catchY = config.height - CATCHER_HEIGHT;
+      const kept: Drop[] = [];
+      for (const d of s.drops) {
+        d.y += (config.fallSpeed * dt) / 1000;
+        const inReach = Math.abs(d.x - s.x) <= config.catcherWidth / 2;
+        if (d.y >= catchY && d.y < catchY + DROP_SIZE && inReach) {
+          s.score = Math.max(0, s.score + (d.bad ? -1 : 1));
+        } else if (d.y > config.height) {
+          if (!d.bad) s.missed += 1;
+        } else {
+          kept.push(d);
+        }
+      }
+      s.drops = kept;
+      // หมดเวลาแล้ว รอของที่ยังร่วงอยู่ตกให้หมดก่อน
+      s.over = s.timeLeft <= 0 && s.drops.length === 0;
+    },
+  };
+}
+
+export type CatchGame = ReturnType<typeof createCatchGame>;
+
+/** รับ 3 ชิ้น = feed 1 ครั้ง, รอบหนึ่งได้ไม่เกิน MAX_FEEDS_PER_ROUND */
+export const CATCHES_PER_FEED = 3;
+export const MAX_FEEDS_PER_ROUND = 5;
+
+export const feedsFromScore = (score: number) =>
+  Math.min(
+    MAX_FEEDS_PER_ROUND,
+    Math.floor(Math.max(0, score) / CATCHES_PER_FEED)
+  );
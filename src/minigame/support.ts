@@ -0,0 +1,51 @@
+import type { Scenario } from "../scenario/graph";
+import { appStorage, defineKey, type AppStorage } from "../storage";
+
+/* ====== เครื่องไหนเล่นได้ + ด่านไหนยากแค่ไหน ====== */
+
+/** เคยเล่นแล้วเฟรมกระตุกหนัก → ซ่อนปุ่มเกม ใช้ปุ่ม Feed ธรรมดา */
+const SLOW_KEY = defineKey<boolean>(
+  "miniGameSlow",
+  () => false,
+  (v) => (typeof v === "boolean" ? v : undefined)
+);
+
+export const markSlowDevice = (storage: AppStorage = appStorage) =>
+  storage.write(SLOW_KEY, true);
+
+type DeviceHints = Navigator & {
+  deviceMemory?: number;
+  connection?: { saveData?: boolean };
+};
+
+/** canvas ได้, ไม่ขอลดการเคลื่อนไหว, ไม่ใช่เครื่องสเปกต่ำ/ประหยัดเน็ต */
+export function canPlayMiniGame(storage: AppStorage = appStorage) {
+  if (typeof document === "undefined" || storage.read(SLOW_KEY)) return false;
+  const nav = navigator as DeviceHints;
+  if (window.matchMedia?.("(prefers-reduced-motion: reduce)").matches) {
+    return false;
+  }
+  if (nav.hardwareConcurrency && nav.hardwareConcurrency <= 2) return false;
+  if (nav.deviceMemory && nav.deviceMemory < 2) return false;
+  if (nav.connection?.saveData) return false;
+  return !!document.createElement("canvas").getContext?.("2d");
+}
+
+/** ด่านของ node = จำนวนครั้งที่กด Feed จาก start (ham1 = 0 … ham4 = 3) */
+export function stageOf(sc: Scenario, key: string) {
+  const seen = new Set([sc.start]);
+  let frontier = [sc.start];
+  for (let depth = 0; frontier.length; depth++) {
+    if (frontier.includes(key)) return depth;
+    const next: string[] = [];
+    for (const k of frontier) {
+      const f = sc.nodes[k]?.feed;
+      if (f && !seen.has(f)) {
+        seen.add(f);
+        next.push(f);
+      }
+    }
+    frontier = next;
+  }
+  return 0;
+}
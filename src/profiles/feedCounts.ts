@@ -0,0 +1,108 @@
+import type { LeaderRow } from "../backend/types";
+import { dayKey, inRange, type TimeRange } from "../backend/windows";
+import { normalizeIG } from "../lib/ig";
+import {
+  appStorage,
+  defineKey,
+  num,
+  recordOf,
+  type AppStorage,
+} from "../storage";
+
+/* ====== ยอด feed ที่กดจากเครื่องนี้ (fallback ตอน leaderboard ออนไลน์ใช้ไม่ได้) ====== */
+export const FEED_COUNT_KEY = defineKey(
+  "localFeedCount",
+  () => ({}),
+  recordOf(num)
+);
+/** { "2026-10-19": { "@ig": 3 } } — ไว้ทำ leaderboard รายวัน/สัปดาห์ตอน offline */
+export const FEED_DAILY_KEY = defineKey(
+  "localFeedDaily",
+  () => ({}),
+  recordOf(recordOf(num))
+);
+
+/** ประวัติ feed ของ IG เดียว — รูปแบบที่ใช้ใน backup */
+export type FeedHistory = {
+  total: number;
+  /** dayKey → จำนวน */
+  daily: Record<string, number>;
+};
+
+/** amount = คุกกี้ที่ได้จาก feed ครั้งนี้ (อีเวนต์ตัวคูณ) */
+export function incLocalFeedCount(
+  ig: string,
+  ts = Date.now(),
+  amount = 1,
+  storage: AppStorage = appStorage
+) {
+  const key = normalizeIG(ig);
+  if (!key) return;
+  storage.update(FEED_COUNT_KEY, (obj) => ({
+    ...obj,
+    [key]: (obj[key] || 0) + amount,
+  }));
+  storage.update(FEED_DAILY_KEY, (daily) => {
+    const day = (daily[dayKey(ts)] ||= {});
+    day[key] = (day[key] || 0) + amount;
+    return daily;
+  });
+}
+
+/** range ว่าง = ยอดรวมทั้งหมด, ไม่งั้นรวมเฉพาะวันที่อยู่ในช่วง */
+export function getLocalTopN(
+  n = 3,
+  range: TimeRange = {},
+  storage: AppStorage = appStorage
+): LeaderRow[] {
+  let obj: Record<string, number> = {};
+  if (range.from == null && range.to == null) {
+    obj = storage.read(FEED_COUNT_KEY);
+  } else {
+    const daily = storage.read(FEED_DAILY_KEY);
+    for (const [day, counts] of Object.entries(daily)) {
+      if (!inRange(new Date(`${day}T00:00:00`).getTime(), range)) continue;
+      for (const [ig, c] of Object.entries(counts))
+        obj[ig] = (obj[ig] || 0) + c;
+    }
+  }
+  return Object.entries(obj)
+    .map(([ig, count]) => ({ ig, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, n);
+}
+
+export function feedHistory(
+  ig: string,
+  storage: AppStorage = appStorage
+): FeedHistory {
+  const key = normalizeIG(ig);
+  const daily: Record<string, number> = {};
+  for (const [day, counts] of Object.entries(storage.read(FEED_DAILY_KEY))) {
+    if (counts[key]) daily[day] = counts[key];
+  }
+  return { total: storage.read(FEED_COUNT_KEY)[key] || 0, daily };
+}
+
+/** รวมประวัติจาก backup — ใช้ค่ามากกว่าของแต่ละช่อง (import ซ้ำก็ไม่บวกเบิ้ล) */
+export function mergeFeedHistory(
+  ig: string,
+  incoming: FeedHistory,
+  storage: AppStorage = appStorage
+): FeedHistory {
+  const key = normalizeIG(ig);
+  if (!key) return { total: 0, daily: {} };
+  storage.update(FEED_DAILY_KEY, (all) => {
+    for (const [day, n] of Object.entries(incoming.daily)) {
+      const counts = (all[day] ||= {});
+      counts[key] = Math.max(counts[key] || 0, n);
+    }
+    return all;
+  });
+  // ยอดรวมต้องไม่น้อยกว่าผลรวมรายวันหลังรวมแล้ว
+  const after = feedHistory(key, storage);
+  const daySum = Object.values(after.daily).reduce((a, b) => a + b, 0);
+  const total = Math.max(after.total, incoming.total, daySum);
+  storage.update(FEED_COUNT_KEY, (obj) => ({ ...obj, [key]: total }));
+  return { total, daily: after.daily };
+}
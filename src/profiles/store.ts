@@ -0,0 +1,163 @@
+import { normalizeIG } from "../lib/ig";
+import {
+  appStorage,
+  arrayOf,
+  defineKey,
+  isFiniteNumber,
+  isObject,
+  shape,
+  type AppStorage,
+} from "../storage";
+
+/* ====== Profile store: หลายผู้เล่นในเครื่องเดียว ======
+   แต่ละ profile มีชื่อแฮมสเตอร์ / IG / ยอด feed ในเครื่องของตัวเอง
+   (ย้ายจาก key สมัยผู้เล่นคนเดียว → storage/migrations.ts)
+*/
+export type Profile = {
+  id: string;
+  hamsterName: string;
+  ig: string;
+  /** จำนวน feed ที่กดจากเครื่องนี้ (fallback ตอน offline) */
+  localFeeds: number;
+  createdAt: number;
+  /** ทีมที่อยู่ (รหัส + ชื่อไว้โชว์) — ไม่มี = เล่นเดี่ยว */
+  team?: ProfileTeam;
+  /** ป้อนครั้งล่าสุดจากเครื่องนี้ (ไว้เตือนตอนหิว) — ไม่มี = ยังไม่เคยป้อน */
+  lastFedAt?: number;
+};
+
+export type ProfileTeam = { code: string; name: string };
+
+export type ProfileState = {
+  activeId: string | null;
+  profiles: Profile[];
+};
+
+export const PROFILES_KEY = defineKey<ProfileState>(
+  "profiles",
+  () => ({ activeId: null, profiles: [] }),
+  (raw) => {
+    if (!isObject(raw)) return undefined;
+    const profiles = arrayOf(
+      shape<Profile>({
+        id: (v) => typeof v === "string" && !!v,
+        hamsterName: (v) => typeof v === "string",
+        ig: (v) => typeof v === "string",
+        localFeeds: isFiniteNumber,
+        createdAt: isFiniteNumber,
+        team: (v) =>
+          v === undefined ||
+          (isObject(v) &&
+            typeof v.code === "string" &&
+            typeof v.name === "string"),
+        lastFedAt: (v) => v === undefined || isFiniteNumber(v),
+      })
+    )(raw.profiles);
+    if (!profiles) return undefined;
+    // activeId ชี้ไป profile ที่ถูกทิ้ง → ใช้คนแรกแทน
+    const activeId = profiles.some((p) => p.id === raw.activeId)
+      ? (raw.activeId as string)
+      : (profiles[0]?.id ?? null);
+    return { activeId, profiles };
+  }
+);
+
+const newId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+export function createProfileStore(
+  storage: AppStorage = appStorage,
+  now: () => number = Date.now
+) {
+  const listeners = new Set<() => void>();
+
+  let state = storage.read(PROFILES_KEY);
+
+  const commit = (next: ProfileState) => {
+    state = next;
+    storage.write(PROFILES_KEY, next);
+    listeners.forEach((l) => l());
+  };
+
+  /** อีกแท็บแก้ profile → โหลดใหม่ */
+  const reloadFromStorage = () => {
+    state = storage.read(PROFILES_KEY);
+    listeners.forEach((l) => l());
+  };
+
+  const patch = (id: string, fn: (p: Profile) => Profile) =>
+    commit({
+      ...state,
+      profiles: state.profiles.map((p) => (p.id === id ? fn(p) : p)),
+    });
+
+  return {
+    getState: () => state,
+    active: () => state.profiles.find((p) => p.id === state.activeId) || null,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /** สร้าง profile ใหม่แล้วสลับไปใช้ทันที */
+    add(hamsterName: string, ig: string, team?: ProfileTeam): Profile {
+      const p: Profile = {
+        id: newId(),
+        hamsterName: hamsterName.trim(),
+        ig: normalizeIG(ig),
+        localFeeds: 0,
+        createdAt: now(),
+        ...(team && { team }),
+      };
+      commit({ activeId: p.id, profiles: [...state.profiles, p] });
+      return p;
+    },
+    /** team: null = ออกจากทีม, undefined = ไม่เปลี่ยน */
+    update(
+      id: string,
+      fields: { hamsterName?: string; ig?: string; team?: ProfileTeam | null }
+    ) {
+      patch(id, (p) => {
+        const next: Profile = {
+          ...p,
+          hamsterName: fields.hamsterName?.trim() ?? p.hamsterName,
+          ig: fields.ig != null ? normalizeIG(fields.ig) : p.ig,
+        };
+        if (fields.team === null) delete next.team;
+        else if (fields.team) next.team = fields.team;
+        return next;
+      });
+    },
+    remove(id: string) {
+      const profiles = state.profiles.filter((p) => p.id !== id);
+      const activeId =
+        state.activeId === id ? (profiles[0]?.id ?? null) : state.activeId;
+      commit({ activeId, profiles });
+    },
+    setActive(id: string) {
+      if (state.profiles.some((p) => p.id === id)) {
+        commit({ ...state, activeId: id });
+      }
+    },
+    recordFeed(id: string, cookies = 1) {
+      patch(id, (p) => ({
+        ...p,
+        localFeeds: p.localFeeds + cookies,
+        lastFedAt: now(),
+      }));
+    },
+    /** ยอดจาก backup/เครื่องอื่น — ไม่ลดยอดที่มีอยู่ */
+    raiseLocalFeeds(id: string, atLeast: number) {
+      patch(id, (p) => ({ ...p, localFeeds: Math.max(p.localFeeds, atLeast) }));
+    },
+    reloadFromStorage,
+    /** ฟังการแก้จากแท็บอื่น — คืนฟังก์ชันเลิกฟัง */
+    watch: () => storage.watch(PROFILES_KEY, reloadFromStorage),
+  };
+}
+
+export type ProfileStore = ReturnType<typeof createProfileStore>;
+
+export const profileStore = createProfileStore();
@@ -0,0 +1,17 @@
+import { useEffect, useSyncExternalStore } from "react";
+
+import { profileStore } from "./store";
+
+/* ====== Hook: profile ทั้งหมด + profile ที่ใช้อยู่ ====== */
+export function useProfiles() {
+  const state = useSyncExternalStore(
+    profileStore.subscribe,
+    profileStore.getState
+  );
+
+  // sync ข้ามแท็บ
+  useEffect(() => profileStore.watch(), []);
+
+  const active = state.profiles.find((p) => p.id === state.activeId) || null;
+  return { profiles: state.profiles, active };
+}
@@ -0,0 +1,69 @@
+import type { Outbox } from "../backend/outbox";
+import type { LeaderboardBackend, OutboxEvent } from "../backend/types";
+
+/* ====== ฝากคิว outbox ให้ service worker ส่งตอนเน็ตกลับมา (Background Sync) ======
+   service worker อ่าน localStorage ไม่ได้ → copy คิวไปไว้ใน IndexedDB
+   ส่งซ้ำกับหน้าเว็บได้ไม่เป็นไร server ตัดซ้ำด้วย id อยู่แล้ว
+   ฝากเฉพาะ event ที่เซ็นแล้ว (outbox.readyEvents) — start ต้องส่งจากหน้าเว็บเพื่อรับ session
+*/
+const DB_NAME = "hamham-sync";
+const STORE = "outbox";
+export const SYNC_TAG = "flush-outbox";
+
+type SyncSnapshot = {
+  target: { url: string; mode: RequestMode };
+  events: OutboxEvent[];
+};
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+function openDb() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const r = indexedDB.open(DB_NAME, 1);
+    r.onupgradeneeded = () => r.result.createObjectStore(STORE);
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+/** เขียนค่าให้ service worker อ่าน — key "pending" = คิว outbox, อื่น ๆ ดู sw.js */
+export async function saveForWorker(key: string, value: unknown) {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put(value, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  db.close();
+}
+
+export function startBackgroundSync(
+  reg: ServiceWorkerRegistration,
+  outbox: Outbox,
+  backend: LeaderboardBackend
+) {
+  const target = backend.syncTarget;
+  const sync = (reg as SyncRegistration).sync;
+  if (!target || !sync || typeof indexedDB === "undefined") return;
+
+  const mirror = async () => {
+    const events = outbox.readyEvents();
+    try {
+      await saveForWorker("pending", { target, events } satisfies SyncSnapshot);
+      if (events.length) await sync.register(SYNC_TAG);
+    } catch (e) {
+      console.warn("background sync unavailable", e);
+    }
+  };
+
+  // service worker ส่งไปแล้ว → เอาออกจากคิวในหน้าเว็บด้วย
+  navigator.serviceWorker.addEventListener("message", (e) => {
+    if (e.data?.type === "outbox-sent") outbox.drop(e.data.ids || []);
+  });
+
+  outbox.subscribe(mirror);
+  void mirror();
+}
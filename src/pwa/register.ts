@@ -0,0 +1,16 @@
+import { backend, outbox } from "../backend";
+import { startBackgroundSync } from "./backgroundSync";
+
+/* ====== ลงทะเบียน service worker (เฉพาะ production build) ====== */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", async () => {
+    try {
+      const reg = await navigator.serviceWorker.register("/sw.js");
+      startBackgroundSync(reg, outbox, backend);
+    } catch (e) {
+      console.warn("service worker registration failed", e);
+    }
+  });
+}
@@ -0,0 +1,190 @@
+import { localeStore } from "../i18n";
+import type { Profile } from "../profiles/store";
+import {
+  appStorage,
+  defineKey,
+  isObject,
+  num,
+  recordOf,
+  type AppStorage,
+} from "../storage";
+import {
+  browserNotifier,
+  type Notifier,
+  type ReminderNotice,
+} from "./notifier";
+import {
+  parseReminderSettings,
+  reminderDueAt,
+  type ReminderSettings,
+} from "./schedule";
+
+export * from "./schedule";
+export type { Notifier, ReminderNotice, ReminderPermission } from "./notifier";
+
+/* ====== เตือนแฮมสเตอร์หิว (opt-in ต่อ profile) ======
+   เตือนครั้งเดียวต่อรอบหิว: ป้อนแล้ว (lastFedAt เปลี่ยน) ถึงจะเตือนรอบใหม่
+   เวลา/ตัวตั้งเวลา/การแสดงผล inject ได้ทั้งหมด → ทดสอบด้วยนาฬิกาปลอมได้
+*/
+export type Clock = {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+};
+
+export const realClock: Clock = {
+  now: Date.now,
+  setTimeout: (fn, ms) => window.setTimeout(fn, ms),
+  clearTimeout: (id) => window.clearTimeout(id),
+};
+
+/** setTimeout เกิน ~24.8 วัน = ยิงทันที → ตั้งทีละไม่เกินวันแล้วค่อยเช็กใหม่ */
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+
+export const REMINDERS_KEY = defineKey<Record<string, ReminderSettings>>(
+  "reminders",
+  () => ({}),
+  recordOf((v) => (isObject(v) ? parseReminderSettings(v) : undefined))
+);
+/** profileId → lastFedAt ของรอบที่เตือนไปแล้ว */
+const SENT_KEY = defineKey<Record<string, number>>(
+  "remindersSent",
+  () => ({}),
+  recordOf(num)
+);
+
+export function createReminders(
+  notifier: Notifier = browserNotifier,
+  storage: AppStorage = appStorage,
+  clock: Clock = realClock
+) {
+  const listeners = new Set<() => void>();
+  let state = storage.read(REMINDERS_KEY);
+  let profiles: Profile[] = [];
+  let timer: number | undefined;
+
+  const settingsFor = (profileId: string) =>
+    parseReminderSettings(state[profileId]);
+
+  const notice = (p: Profile, at: number): ReminderNotice => {
+    const { t } = localeStore.getState();
+    const s = settingsFor(p.id);
+    return {
+      profileId: p.id,
+      tag: `hunger-${p.id}`,
+      title: t("reminder.title", { name: p.hamsterName }),
+      body: t("reminder.body", { name: p.hamsterName }),
+      at,
+      quietStart: s.quietStart,
+      quietEnd: s.quietEnd,
+    };
+  };
+
+  /** เตือนที่ถึงเวลา + ตั้งเวลาไว้สำหรับตัวถัดไป */
+  function check() {
+    if (timer != null) clock.clearTimeout(timer);
+    timer = undefined;
+    if (notifier.permission() !== "granted") {
+      notifier.plan([]);
+      return;
+    }
+
+    const now = clock.now();
+    const sent = storage.read(SENT_KEY);
+    const upcoming: ReminderNotice[] = [];
+    for (const p of profiles) {
+      const s = settingsFor(p.id);
+      const fedAt = p.lastFedAt ?? p.createdAt;
+      if (!s.enabled || sent[p.id] === fedAt) continue;
+      const at = reminderDueAt(fedAt, s);
+      if (at > now) {
+        upcoming.push(notice(p, at));
+      } else if (!notifier.visible()) {
+        // เปิดแอปอยู่ = ไม่เตือน รอเช็กใหม่ตอนสลับไปแท็บอื่น
+        void notifier.show(notice(p, at));
+        sent[p.id] = fedAt;
+        storage.write(SENT_KEY, sent);
+      }
+    }
+
+    notifier.plan(upcoming);
+    if (upcoming.length) {
+      const next = Math.min(...upcoming.map((n) => n.at));
+      timer = clock.setTimeout(check, Math.min(next - now, MAX_TIMER_MS));
+    }
+  }
+
+  const commit = (next: Record<string, ReminderSettings>) => {
+    state = next;
+    storage.write(REMINDERS_KEY, next);
+    listeners.forEach((l) => l());
+    check();
+  };
+
+  return {
+    getState: () => state,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    settingsFor,
+    permission: () => notifier.permission(),
+    update(profileId: string, patch: Partial<ReminderSettings>) {
+      commit({
+        ...state,
+        [profileId]: parseReminderSettings({
+          ...settingsFor(profileId),
+          ...patch,
+        }),
+      });
+    },
+    /** เปิดเตือน — ขออนุญาตแจ้งเตือนก่อน (ต้องเรียกจากการกดปุ่ม) */
+    async enable(profileId: string) {
+      const permission =
+        notifier.permission() === "granted"
+          ? "granted"
+          : await notifier.request();
+      if (permission === "granted") this.update(profileId, { enabled: true });
+      return permission;
+    },
+    disable(profileId: string) {
+      this.update(profileId, { enabled: false });
+    },
+    remove(profileId: string) {
+      const next = { ...state };
+      delete next[profileId];
+      const sent = storage.read(SENT_KEY);
+      delete sent[profileId];
+      storage.write(SENT_KEY, sent);
+      commit(next);
+    },
+    /** profile เปลี่ยน (ป้อน/เพิ่ม/ลบ) → คำนวณเวลาเตือนใหม่ */
+    setProfiles(next: Profile[]) {
+      profiles = next;
+      check();
+    },
+    check,
+    /** เช็กใหม่ตอนสลับแท็บ + ตามการตั้งค่าจากแท็บอื่น — คืนฟังก์ชันเลิกฟัง */
+    start() {
+      const onVisibility = () => check();
+      document.addEventListener("visibilitychange", onVisibility);
+      const stop = storage.watch(REMINDERS_KEY, () => {
+        state = storage.read(REMINDERS_KEY);
+        listeners.forEach((l) => l());
+        check();
+      });
+      return () => {
+        document.removeEventListener("visibilitychange", onVisibility);
+        stop();
+        if (timer != null) clock.clearTimeout(timer);
+        timer = undefined;
+      };
+    },
+  };
+}
+
+export type Reminders = ReturnType<typeof createReminders>;
+
+export const reminders = createReminders();
@@ -0,0 +1,77 @@
+import { saveForWorker } from "../pwa/backgroundSync";
+
+/* ====== ส่งแจ้งเตือนจริง: Notifications API + service worker ======
+   หน้าเว็บเปิดค้างไว้ (แท็บอยู่เบื้องหลัง) → ตั้งเวลาในหน้าเว็บแล้วแสดงผ่าน service worker
+   ปิดแท็บไปแล้ว → service worker เตือนแทนตอน periodic sync (เฉพาะแอปที่ติดตั้งแล้ว ดู sw.js)
+*/
+export const REMINDER_SYNC_TAG = "hunger-reminders";
+const ICON = "/icons/icon-192.png";
+
+export type ReminderPermission = NotificationPermission | "unsupported";
+
+export type ReminderNotice = {
+  profileId: string;
+  /** แจ้งเตือน tag เดียวกันแทนที่กัน (ไม่ซ้อนถ้า service worker เตือนไปแล้ว) */
+  tag: string;
+  title: string;
+  body: string;
+  at: number;
+  quietStart: number;
+  quietEnd: number;
+};
+
+export type Notifier = {
+  permission(): ReminderPermission;
+  request(): Promise<ReminderPermission>;
+  /** ผู้เล่นเปิดแอปอยู่ตรงหน้า → ไม่ต้องเตือน */
+  visible(): boolean;
+  show(notice: ReminderNotice): Promise<void>;
+  /** เตือนที่รออยู่ → ฝาก service worker ไว้ (เผื่อปิดแท็บ) */
+  plan(upcoming: ReminderNotice[]): void;
+};
+
+type PeriodicRegistration = ServiceWorkerRegistration & {
+  periodicSync?: {
+    register(tag: string, opts: { minInterval: number }): Promise<void>;
+  };
+};
+
+const supported = () => typeof Notification !== "undefined";
+
+export const browserNotifier: Notifier = {
+  permission: () => (supported() ? Notification.permission : "unsupported"),
+  async request() {
+    if (!supported()) return "unsupported";
+    return Notification.requestPermission();
+  },
+  visible: () => document.visibilityState === "visible",
+  async show(notice) {
+    const opts: NotificationOptions = {
+      body: notice.body,
+      tag: notice.tag,
+      icon: ICON,
+      data: { url: import.meta.env.BASE_URL },
+    };
+    // มือถือสร้าง new Notification() ไม่ได้ ต้องผ่าน service worker
+    const reg = await navigator.serviceWorker?.getRegistration();
+    if (reg) await reg.showNotification(notice.title, opts);
+    else new Notification(notice.title, opts);
+  },
+  plan(upcoming) {
+    if (typeof indexedDB === "undefined") return;
+    void (async () => {
+      try {
+        await saveForWorker("reminders", upcoming);
+        const reg = (await navigator.serviceWorker?.getRegistration()) as
+          PeriodicRegistration | undefined;
+        if (upcoming.length) {
+          await reg?.periodicSync?.register(REMINDER_SYNC_TAG, {
+            minInterval: 60 * 60 * 1000,
+          });
+        }
+      } catch {
+        // ไม่มี periodic sync (ยังไม่ติดตั้งแอป / เบราว์เซอร์ไม่รองรับ) — เตือนได้เฉพาะตอนแท็บเปิดอยู่
+      }
+    })();
+  },
+};
@@ -0,0 +1,65 @@
+/* ====== เตือนแฮมสเตอร์หิว: คำนวณเวลาเตือน (pure — ป้อนเวลาเองได้ทั้งหมด) ======
+   เตือนเมื่อไม่ได้ป้อนครบ afterHours ชม. — ตรงกับช่วงเงียบ = เลื่อนไปตอนช่วงเงียบจบ
+   ชั่วโมงทั้งหมดเป็นเวลาเครื่อง (ไม่ใช่ UTC)
+*/
+export type ReminderSettings = {
+  enabled: boolean;
+  /** ไม่ได้ป้อนกี่ชั่วโมงถึงเตือน */
+  afterHours: number;
+  /** ช่วงเงียบ (ชั่วโมง 0–23) — start = end แปลว่าไม่มีช่วงเงียบ */
+  quietStart: number;
+  quietEnd: number;
+};
+
+export const DEFAULT_REMINDER: ReminderSettings = {
+  enabled: false,
+  afterHours: 8,
+  quietStart: 22,
+  quietEnd: 8,
+};
+
+export const AFTER_HOURS_CHOICES = [2, 4, 8, 12, 24];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const isHour = (v: unknown): v is number =>
+  Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 23;
+
+/** ค่าที่อ่านมา/ผู้ใช้ส่งมา → settings ที่ใช้ได้ (field ที่พังใช้ค่าเริ่มต้น) */
+export function parseReminderSettings(raw: unknown): ReminderSettings {
+  const o = (raw || {}) as Partial<Record<keyof ReminderSettings, unknown>>;
+  const after = Number(o.afterHours);
+  return {
+    enabled: o.enabled === true,
+    afterHours:
+      Number.isFinite(after) && after >= 1 && after <= 72
+        ? after
+        : DEFAULT_REMINDER.afterHours,
+    quietStart: isHour(o.quietStart)
+      ? o.quietStart
+      : DEFAULT_REMINDER.quietStart,
+    quietEnd: isHour(o.quietEnd) ? o.quietEnd : DEFAULT_REMINDER.quietEnd,
+  };
+}
+
+export function inQuietHours(ts: number, s: ReminderSettings) {
+  if (s.quietStart === s.quietEnd) return false;
+  const h = new Date(ts).getHours();
+  // 22 → 8 ข้ามเที่ยงคืน, 13 → 15 ไม่ข้าม
+  return s.quietStart < s.quietEnd
+    ? h >= s.quietStart && h < s.quietEnd
+    : h >= s.quietStart || h < s.quietEnd;
+}
+
+/** เวลาแรกตั้งแต่ ts ที่ไม่อยู่ในช่วงเงียบ */
+export function afterQuietHours(ts: number, s: ReminderSettings) {
+  if (!inQuietHours(ts, s)) return ts;
+  const end = new Date(ts);
+  end.setHours(s.quietEnd, 0, 0, 0);
+  if (end.getTime() <= ts) end.setDate(end.getDate() + 1);
+  return end.getTime();
+}
+
+/** เวลาที่ควรเตือน นับจากป้อนครั้งล่าสุด */
+export const reminderDueAt = (lastFedAt: number, s: ReminderSettings) =>
+  afterQuietHours(lastFedAt + s.afterHours * HOUR_MS, s);
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+
+import { parseReminderSettings, reminders } from ".";
+
+/* ====== Hook: การตั้งค่าเตือนของ profile (render ใหม่เมื่อแก้/แท็บอื่นแก้) ====== */
+export function useReminders(profileId: string) {
+  const all = useSyncExternalStore(reminders.subscribe, reminders.getState);
+  return {
+    settings: parseReminderSettings(all[profileId]),
+    permission: reminders.permission(),
+  };
+}
@@ -0,0 +1,95 @@
+import { normalizeIG } from "../lib/ig";
+import { parseRoute, pathFor, type Route } from "./routes";
+
+export * from "./routes";
+
+/* ====== Router: history API ล้วน ๆ (ไม่ใช้ library) ======
+   state = route จาก URL ปัจจุบัน; navigate = pushState/replaceState แล้วแจ้ง listener
+   ปุ่ม back ของเบราว์เซอร์ → popstate → route เปลี่ยน → App ตามเอง
+*/
+/** query ที่ตั้งค่าแอป (เรื่อง/backend ตอน dev) — ติดไปทุกหน้า ไม่หลุดตอนเปลี่ยน route
+ *  backend/backendUrl ใช้ได้แค่ตอน dev (ดู resolveBackendConfig) → build จริงไม่ต้องพกไป */
+const STICKY_PARAMS = import.meta.env.DEV
+  ? ["scenario", "backend", "backendUrl"]
+  : ["scenario"];
+
+/** ลำดับของ entry ใน history ที่แอปสร้าง — 0 = หน้าแรกที่เปิดเข้ามา */
+type HistoryState = { idx: number } | null;
+
+export function createRouter(
+  win: Window = window,
+  base: string = import.meta.env.BASE_URL
+) {
+  const listeners = new Set<() => void>();
+  const read = () =>
+    parseRoute(win.location.pathname, win.location.search, base);
+  let route = read();
+  let idx = (win.history.state as HistoryState)?.idx ?? 0;
+
+  const urlFor = (next: Route) => {
+    const url = new URL(pathFor(next, base), win.location.origin);
+    const current = new URLSearchParams(win.location.search);
+    for (const name of STICKY_PARAMS) {
+      const v = current.get(name);
+      if (v) url.searchParams.set(name, v);
+    }
+    return url.pathname + url.search;
+  };
+
+  const emit = (next: Route) => {
+    route = next;
+    listeners.forEach((l) => l());
+  };
+
+  /** replace = แทน entry ปัจจุบัน (ไม่เพิ่มประวัติ เช่น redirect) */
+  const navigate = (next: Route, opts: { replace?: boolean } = {}) => {
+    const url = urlFor(next);
+    if (url === win.location.pathname + win.location.search) return;
+    if (opts.replace) {
+      win.history.replaceState({ idx } satisfies HistoryState, "", url);
+    } else {
+      idx++;
+      win.history.pushState({ idx } satisfies HistoryState, "", url);
+    }
+    emit(next);
+  };
+
+  return {
+    getState: () => route,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    navigate,
+    /** ลิงก์เต็มไว้แชร์ (ไม่พก query ตั้งค่า) — ref = IG ของคนแชร์ ได้เครดิตตอนเพื่อนเริ่มเล่น */
+    shareUrl(next: Route, ref?: string) {
+      const url = new URL(pathFor(next, base), win.location.origin);
+      // IG มีแค่ a-z0-9._ → ใส่ตรง ๆ ให้ลิงก์อ่านง่าย (@ ไม่ต้อง encode)
+      if (ref) url.search = `ref=${normalizeIG(ref)}`;
+      return url.href;
+    },
+    /** ย้อนกลับ — เปิดลิงก์ตรงเข้ามา (ไม่มีหน้าก่อนหน้าในแอป) = ไปหน้าแรกแทน */
+    back: () => {
+      if (idx > 0) win.history.back();
+      else navigate({ name: "home" }, { replace: true });
+    },
+    /** ฟังปุ่ม back/forward — คืนฟังก์ชันเลิกฟัง */
+    start() {
+      if (!win.history.state) {
+        win.history.replaceState({ idx } satisfies HistoryState, "", null);
+      }
+      const onPop = (e: PopStateEvent) => {
+        idx = (e.state as HistoryState)?.idx ?? 0;
+        emit(read());
+      };
+      win.addEventListener("popstate", onPop);
+      return () => win.removeEventListener("popstate", onPop);
+    },
+  };
+}
+
+export type Router = ReturnType<typeof createRouter>;
+
+export const router = createRouter();
@@ -0,0 +1,56 @@
+import { isIGValid, normalizeIG } from "../lib/ig";
+import {
+  appStorage,
+  defineKey,
+  isFiniteNumber,
+  shape,
+  type AppStorage,
+} from "../storage";
+
+/* ====== ?ref=@ig: ลิงก์ที่แชร์มาให้เครดิตคนชวน ======
+   จำคนแรกที่ชวน (first touch) ไว้ในเครื่อง → ติดไปกับ start ของ profile ใหม่ครั้งเดียว
+   server นับ referral จาก start แรกของแต่ละ IG (ดู src/backend/players.ts)
+*/
+type Referral = { ig: string; at: number };
+
+/** ลิงก์ที่เปิดไว้นานกว่านี้แล้วค่อยมาเล่น = ไม่นับแล้ว */
+export const REFERRAL_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const REFERRAL_KEY = defineKey<Referral | null>(
+  "referral",
+  () => null,
+  shape<Referral>({
+    ig: (v) => typeof v === "string",
+    at: isFiniteNumber,
+  })
+);
+
+export function createReferrals(
+  storage: AppStorage = appStorage,
+  now: () => number = Date.now
+) {
+  const current = () => {
+    const r = storage.read(REFERRAL_KEY);
+    return r && now() - r.at < REFERRAL_TTL_MS ? r : null;
+  };
+
+  return {
+    /** อ่าน ?ref= จาก URL — คืน true ถ้ามี (ให้ลบออกจาก URL ต่อ) */
+    capture(search: string) {
+      const raw = new URLSearchParams(search).get("ref");
+      if (raw == null) return false;
+      if (isIGValid(raw) && !current()) {
+        storage.write(REFERRAL_KEY, { ig: normalizeIG(raw), at: now() });
+      }
+      return true;
+    },
+    /** คนชวนสำหรับ profile ใหม่ (ใช้แล้วลบ) — ชวนตัวเองไม่นับ */
+    take(ownIG: string) {
+      const r = current();
+      storage.remove(REFERRAL_KEY);
+      return r && r.ig !== normalizeIG(ownIG) ? r.ig : undefined;
+    },
+  };
+}
+
+export const referrals = createReferrals();
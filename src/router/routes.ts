@@ -0,0 +1,77 @@
+import type { LeaderWindow } from "../backend/windows";
+import { isIGValid, normalizeIG } from "../lib/ig";
+
+/* ====== เส้นทางในแอป ↔ URL (pure — ไม่แตะ window) ======
+   /               → home: มี profile = เข้าเกม, ไม่มี = onboarding
+   /start          → ฟอร์มสร้าง/แก้ profile
+   /play/:node     → ฉากในเรื่อง (รีเฟรชแล้วอยู่ฉากเดิม)
+   /leaderboard    → leaderboard เต็ม (?window=day|week|all|campaign|event)
+   /u/@handle      → หน้าสาธารณะของผู้เล่น
+   /stats          → dashboard สถิติ
+*/
+export type Route =
+  | { name: "home" }
+  | { name: "onboarding" }
+  | { name: "play"; node: string }
+  | { name: "leaderboard"; window?: LeaderWindow }
+  | { name: "player"; ig: string }
+  | { name: "stats" };
+
+const WINDOWS: LeaderWindow[] = ["day", "week", "all", "campaign", "event"];
+
+const isWindow = (v: string | null): v is LeaderWindow =>
+  !!v && (WINDOWS as string[]).includes(v);
+
+/** base = import.meta.env.BASE_URL ("/" หรือ "/app/") */
+export function parseRoute(pathname: string, search = "", base = "/"): Route {
+  const prefix = base.replace(/\/+$/, "");
+  const path = pathname.startsWith(prefix)
+    ? pathname.slice(prefix.length)
+    : pathname;
+  let parts: string[];
+  try {
+    parts = path.split("/").filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return { name: "home" }; // %E0%A4%A แบบขาด ๆ → decodeURIComponent throw URIError
+  }
+
+  switch (parts[0]) {
+    case "start":
+      return { name: "onboarding" };
+    case "play":
+      return parts[1] ? { name: "play", node: parts[1] } : { name: "home" };
+    case "leaderboard": {
+      const win = new URLSearchParams(search).get("window");
+      return isWindow(win)
+        ? { name: "leaderboard", window: win }
+        : { name: "leaderboard" };
+    }
+    case "u":
+      return parts[1] && isIGValid(parts[1])
+        ? { name: "player", ig: normalizeIG(parts[1]) }
+        : { name: "home" };
+    case "stats":
+      return { name: "stats" };
+    default:
+      return { name: "home" };
+  }
+}
+
+/** path + query ของ route (ไม่รวม query อื่นที่ต้องพกต่อ เช่น ?scenario=) */
+export function pathFor(route: Route, base = "/") {
+  const prefix = base.replace(/\/+$/, "");
+  switch (route.name) {
+    case "onboarding":
+      return `${prefix}/start`;
+    case "play":
+      return `${prefix}/play/${encodeURIComponent(route.node)}`;
+    case "leaderboard":
+      return `${prefix}/leaderboard${route.window ? `?window=${route.window}` : ""}`;
+    case "player":
+      return `${prefix}/u/${normalizeIG(route.ig)}`;
+    case "stats":
+      return `${prefix}/stats`;
+    default:
+      return `${prefix}/`;
+  }
+}
@@ -0,0 +1,13 @@
+import { useEffect, useSyncExternalStore } from "react";
+
+import { router } from ".";
+
+/* ====== Hook: route ปัจจุบัน (render ใหม่เมื่อ URL เปลี่ยน) ====== */
+export function useRoute() {
+  const route = useSyncExternalStore(router.subscribe, router.getState);
+
+  // ปุ่ม back/forward ของเบราว์เซอร์
+  useEffect(() => router.start(), []);
+
+  return route;
+}
@@ -0,0 +1,153 @@
+import { isObject } from "../storage";
+
+/* ====== Scenario graph (โหลดจาก JSON) ======
+   node = ภาพ + คำพูด + ทางไปต่อเมื่อกด Feed/Skip
+   node ที่ไม่มีทั้ง feed/skip = ฉากจบ (โชว์ปุ่ม Restart)
+*/
+
+export type Caption = string | Record<string, string>;
+
+export type ScenarioNode = {
+  /** ชื่อไฟล์ใน src/assets (ไม่ต้องใส่ .gif) */
+  image: string;
+  /** ขึ้นบรรทัดใหม่ด้วย "\n" — แยกภาษาได้ { "en": "...", "th": "..." } */
+  caption: Caption;
+  /** ใช้ตัวหนังสือใหญ่ (class big-text) */
+  big?: boolean;
+  feed?: string;
+  skip?: string;
+  /** ฉากจบกด Restart แล้วไปไหน (default = start) */
+  restart?: string;
+  /** เสียงตอนเข้าฉาก — ชื่อไฟล์ใน src/assets/audio (ไม่ต้องใส่ .wav) */
+  sound?: string;
+};
+
+/** เงื่อนไขเลือกฉากจาก needs ของแฮมสเตอร์ — ทุกข้อที่ใส่ต้องจริง */
+export type MoodWhen = {
+  asleep?: boolean;
+  hungerAtLeast?: number;
+  hungerBelow?: number;
+  happinessBelow?: number;
+  energyBelow?: number;
+};
+
+export type MoodRule = { node: string; when?: MoodWhen };
+
+export type Scenario = {
+  id: string;
+  title?: string;
+  start: string;
+  nodes: Record<string, ScenarioNode>;
+  /** ถ้ามี: ฉากตอนเข้าเกม/หลัง Feed/Restart เลือกจาก needs (กฎแรกที่ตรง) */
+  moods?: MoodRule[];
+};
+
+type NeedsLike = {
+  hunger: number;
+  happiness: number;
+  energy: number;
+  asleep: boolean;
+};
+
+export const isTerminal = (node: ScenarioNode) => !node.feed && !node.skip;
+
+/** ข้อความตามภาษา → en → ภาษาแรกที่มี */
+export const textFor = (text: Caption, locale: string) =>
+  typeof text === "string"
+    ? text
+    : (text[locale] ?? text.en ?? Object.values(text)[0] ?? "");
+
+export const captionFor = (node: ScenarioNode, locale: string) =>
+  textFor(node.caption, locale);
+
+export class ScenarioError extends Error {
+  constructor(id: string, message: string) {
+    super(`scenario "${id}": ${message}`);
+    this.name = "ScenarioError";
+  }
+}
+
+/** ข้อความเดียว หรือ map ภาษา → ข้อความ (อย่างน้อย 1 ภาษา) — App เอาไป .split("\n") */
+const isCaption = (v: unknown): v is Caption =>
+  typeof v === "string" ||
+  (isObject(v) &&
+    Object.keys(v).length > 0 &&
+    Object.values(v).every((t) => typeof t === "string"));
+
+/** ตรวจ JSON ให้ครบก่อนใช้งาน — ลิงก์ไปหา node ที่ไม่มี / ไม่มีภาพ = throw */
+export function validateScenario(
+  raw: unknown,
+  images: Record<string, string>,
+  sounds?: Record<string, string>
+): Scenario {
+  const sc = raw as Partial<Scenario> | null;
+  const id = String(sc?.id || "?");
+  if (!sc || typeof sc.nodes !== "object" || !sc.nodes) {
+    throw new ScenarioError(id, "missing nodes");
+  }
+  const nodes = sc.nodes as Record<string, ScenarioNode>;
+  if (!sc.start || !nodes[sc.start]) {
+    throw new ScenarioError(id, `unknown start node "${sc.start}"`);
+  }
+  for (const [key, node] of Object.entries(nodes)) {
+    if (!isObject(node)) {
+      throw new ScenarioError(id, `node "${key}" is not an object`);
+    }
+    if (!images[node.image]) {
+      throw new ScenarioError(
+        id,
+        `node "${key}" uses unknown image "${node.image}"`
+      );
+    }
+    if (node.sound && sounds && !sounds[node.sound]) {
+      throw new ScenarioError(
+        id,
+        `node "${key}" uses unknown sound "${node.sound}"`
+      );
+    }
+    if (!isCaption(node.caption)) {
+      throw new ScenarioError(
+        id,
+        `node "${key}" needs a caption (text or { "en": text, ... })`
+      );
+    }
+    for (const next of [node.feed, node.skip, node.restart]) {
+      if (next && !nodes[next]) {
+        throw new ScenarioError(
+          id,
+          `node "${key}" links to unknown node "${next}"`
+        );
+      }
+    }
+  }
+  const moods = Array.isArray(sc.moods) ? sc.moods : undefined;
+  for (const m of moods || []) {
+    if (!nodes[m.node]) {
+      throw new ScenarioError(id, `mood links to unknown node "${m.node}"`);
+    }
+  }
+  return { id, title: sc.title, start: sc.start, nodes, moods };
+}
+
+const moodMatches = (w: MoodWhen = {}, n: NeedsLike) =>
+  (w.asleep == null || w.asleep === n.asleep) &&
+  (w.hungerAtLeast == null || n.hunger >= w.hungerAtLeast) &&
+  (w.hungerBelow == null || n.hunger < w.hungerBelow) &&
+  (w.happinessBelow == null || n.happiness < w.happinessBelow) &&
+  (w.energyBelow == null || n.energy < w.energyBelow);
+
+/** ฉากตาม needs — undefined ถ้าเรื่องนี้ไม่มี moods (ใช้ลำดับ feed/skip เดิม) */
+export const pickMood = (sc: Scenario, needs: NeedsLike) =>
+  sc.moods?.find((m) => moodMatches(m.when, needs))?.node;
+
+/** node ที่ไปต่อได้จาก node นี้ (ไว้ preload) */
+export const nextNodes = (sc: Scenario, key: string): string[] => {
+  const node = sc.nodes[key];
+  if (!node) return [];
+  const next = isTerminal(node)
+    ? [node.restart || sc.start]
+    : [node.feed, node.skip];
+  // เรื่องที่มี moods → ฉากไหนก็อาจเป็นฉากถัดไป
+  if (sc.moods) next.push(...sc.moods.map((m) => m.node));
+  return Array.from(new Set(next)).filter((n): n is string => !!n);
+};
@@ -0,0 +1,82 @@
+import { SOUNDS } from "../audio/sounds";
+import { validateScenario, type Scenario } from "./graph";
+
+export * from "./graph";
+
+/* ====== GIF ทุกไฟล์ใน src/assets → key = ชื่อไฟล์ ====== */
+const imageModules = import.meta.glob<string>("../assets/*.gif", {
+  eager: true,
+  import: "default",
+});
+
+export const IMAGES: Record<string, string> = Object.fromEntries(
+  Object.entries(imageModules).map(([path, url]) => [
+    path.replace(/^.*\/|\.gif$/g, ""),
+    url,
+  ])
+);
+
+/* ====== เรื่องทั้งหมดใน ./stories/*.json ====== */
+const storyModules = import.meta.glob<unknown>("./stories/*.json", {
+  eager: true,
+  import: "default",
+});
+
+/** เรื่องที่พังข้ามไป (เตือนใน console) — ไฟล์เดียวพังต้องไม่ทำให้ทั้งแอปเปิดไม่ขึ้น */
+function loadStories(modules: Record<string, unknown>) {
+  const out: Record<string, Scenario> = {};
+  for (const [path, raw] of Object.entries(modules)) {
+    try {
+      const sc = validateScenario(raw, IMAGES, SOUNDS);
+      out[sc.id] = sc;
+    } catch (e) {
+      console.warn(`scenario: skipped invalid story ${path}`, e);
+    }
+  }
+  return out;
+}
+
+export const SCENARIOS: Record<string, Scenario> = loadStories(storyModules);
+
+/** เรื่องสำรองในโค้ด — ใช้เมื่อ stories/default.json หายหรือพัง */
+export const BUILTIN_SCENARIO: Scenario = {
+  id: "builtin",
+  start: "ham1",
+  nodes: {
+    ham1: {
+      image: "ham1",
+      caption: {
+        en: "Feed me or fight me 🤤💢",
+        th: "ให้ขนมหรือจะเอาเรื่อง 🤤💢",
+      },
+      big: true,
+      feed: "ham5",
+      skip: "ham_ag",
+    },
+    ham5: {
+      image: "ham5",
+      caption: { en: "Thank you ❤️❤️❤️", th: "ขอบคุณนะ ❤️❤️❤️" },
+    },
+    ham_ag: {
+      image: "ham_ag",
+      caption: { en: "No cookie...? 😈", th: "ไม่มีคุกกี้...? 😈" },
+    },
+  },
+};
+
+/** เลือกเรื่องจาก ?scenario= → VITE_SCENARIO → "default" → เรื่องสำรองในโค้ด */
+export function resolveScenario(
+  search: string = window.location.search
+): Scenario {
+  const wanted =
+    new URLSearchParams(search).get("scenario") ||
+    import.meta.env.VITE_SCENARIO ||
+    "default";
+  return SCENARIOS[wanted] || SCENARIOS.default || BUILTIN_SCENARIO;
+}
+
+/** ชื่อไฟล์ใน src/assets หรือ URL ตรง ๆ (ภาพของอีเวนต์ที่ไม่ได้ bundle มา) */
+export const imageFor = (sc: Scenario, key: string) => {
+  const image = sc.nodes[key]?.image || "";
+  return IMAGES[image] || (/^(https?:)?\/\/|^\//.test(image) ? image : "");
+};
@@ -0,0 +1,181 @@
+/* ====== การ์ดแฮมสเตอร์ขนาด story (1080×1920) วาดบน canvas ฝั่ง client ล้วน ====== */
+
+export const CARD_W = 1080;
+export const CARD_H = 1920;
+
+export type CardInfo = {
+  /** URL ของ GIF ฉากปัจจุบัน — ต่าง origin จะไม่ถูกวาด (ดู isSameOrigin) */
+  image: string;
+  hamsterName: string;
+  ig: string;
+  /** ข้อความที่แปลแล้ว (หัวการ์ด / by @ig / ยอดคุกกี้ / อันดับ) */
+  labels: CardLabels;
+};
+
+export type CardLabels = {
+  headline: string;
+  by: string;
+  cookies: string;
+  rank: string;
+};
+
+const FONT = `system-ui, -apple-system, "Noto Sans Thai", "Segoe UI", sans-serif`;
+
+/** ภาพต่าง origin (ภาพอีเวนต์จาก URL ภายนอก) ทำ canvas ติด taint → toBlob พัง
+ *  data:/blob: ถือว่าใช้ได้ */
+export const isSameOrigin = (src: string) => {
+  try {
+    const url = new URL(src, window.location.href);
+    return (
+      url.origin === window.location.origin ||
+      /^(data|blob):$/.test(url.protocol)
+    );
+  } catch {
+    return false;
+  }
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("image load failed"));
+    img.src = src;
+  });
+
+function roundRect(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  r: number
+) {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+}
+
+/** ตัดข้อความให้พอดีความกว้าง (เติม …) */
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxW: number) {
+  if (ctx.measureText(text).width <= maxW) return text;
+  let t = text;
+  while (t.length > 1 && ctx.measureText(t + "…").width > maxW) {
+    t = t.slice(0, -1);
+  }
+  return t + "…";
+}
+
+export async function renderHamsterCard(info: CardInfo): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = CARD_W;
+  canvas.height = CARD_H;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("canvas not supported");
+
+  // พื้นหลัง
+  const bg = ctx.createLinearGradient(0, 0, 0, CARD_H);
+  bg.addColorStop(0, "#fff4e0");
+  bg.addColorStop(1, "#ffd6e0");
+  ctx.fillStyle = bg;
+  ctx.fillRect(0, 0, CARD_W, CARD_H);
+
+  ctx.textAlign = "center";
+  ctx.fillStyle = "#333";
+  ctx.font = `700 64px ${FONT}`;
+  ctx.fillText(info.labels.headline, CARD_W / 2, 200);
+
+  // เฟรมปัจจุบันของ GIF
+  const frame = { x: 120, y: 300, w: 840, h: 840 };
+  ctx.save();
+  roundRect(ctx, frame.x, frame.y, frame.w, frame.h, 48);
+  ctx.fillStyle = "#fff";
+  ctx.fill();
+  ctx.clip();
+  try {
+    if (!isSameOrigin(info.image)) throw new Error("cross-origin image");
+    const img = await loadImage(info.image);
+    const scale = Math.min(frame.w / img.width, frame.h / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    ctx.drawImage(
+      img,
+      frame.x + (frame.w - w) / 2,
+      frame.y + (frame.h - h) / 2,
+      w,
+      h
+    );
+  } catch {
+    // โหลดภาพไม่ได้ / ภาพต่าง origin ก็ยังได้การ์ดเปล่า ๆ
+  }
+  ctx.restore();
+
+  // ชื่อแฮมสเตอร์ (แบบ hamster-name-overlay)
+  ctx.font = `800 96px ${FONT}`;
+  ctx.lineWidth = 14;
+  ctx.strokeStyle = "#fff";
+  const name = fitText(ctx, info.hamsterName, CARD_W - 160);
+  ctx.strokeText(name, CARD_W / 2, 1280);
+  ctx.fillStyle = "#222";
+  ctx.fillText(name, CARD_W / 2, 1280);
+
+  ctx.font = `600 56px ${FONT}`;
+  ctx.fillStyle = "#555";
+  ctx.fillText(fitText(ctx, info.labels.by, CARD_W - 160), CARD_W / 2, 1370);
+
+  // กล่องสถิติ
+  roundRect(ctx, 140, 1460, 800, 260, 40);
+  ctx.fillStyle = "rgba(0,0,0,0.78)";
+  ctx.fill();
+  ctx.fillStyle = "#fff";
+  ctx.font = `800 80px ${FONT}`;
+  ctx.fillText(`🍪 ${info.labels.cookies}`, CARD_W / 2, 1570);
+  ctx.font = `600 48px ${FONT}`;
+  ctx.fillStyle = "#3ee680";
+  ctx.fillText(info.labels.rank, CARD_W / 2, 1670);
+
+  ctx.font = `500 40px ${FONT}`;
+  ctx.fillStyle = "#666";
+  ctx.fillText(window.location.host, CARD_W / 2, 1830);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("toBlob failed"))),
+      "image/png"
+    )
+  );
+}
+
+/** Web Share API (พร้อมไฟล์ + ลิงก์) → ไม่ได้ก็ดาวน์โหลด PNG แทน — title แปลมาแล้ว */
+export async function shareOrDownload(
+  blob: Blob,
+  filename: string,
+  title: string,
+  link?: string
+) {
+  const file = new File([blob], filename, { type: blob.type || "image/png" });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title, url: link });
+      return "shared" as const;
+    } catch (e) {
+      // ผู้ใช้กดยกเลิก → ไม่ต้องดาวน์โหลด
+      if (e instanceof DOMException && e.name === "AbortError") {
+        return "cancelled" as const;
+      }
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return "downloaded" as const;
+}
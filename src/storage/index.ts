@@ -0,0 +1,127 @@
+import { migrate, storedVersion } from "./migrations";
+import type { Check } from "./validate";
+
+export * from "./validate";
+export { MIGRATIONS, SCHEMA_VERSION, VERSION_KEY } from "./migrations";
+
+/* ====== Storage layer: ทุก store อ่าน/เขียน localStorage ผ่านตรงนี้ ======
+   - key มีชนิด + ตัวตรวจ → ค่าพัง/รูปผิด = ย้ายไป "<key>.corrupt" แล้วใช้ค่าเริ่มต้น
+   - migrate ครั้งแรกที่ใช้งาน (ดู migrations.ts)
+   - watch(key) = แจ้งเมื่อแท็บอื่นเขียน key นั้น (storage event)
+*/
+export type StorageKey<T> = {
+  name: string;
+  /** ค่าตอนยังไม่มี / อ่านไม่ได้ */
+  fallback: () => T;
+  validate: Check<T>;
+  /** เก็บเป็นข้อความล้วน ไม่ผ่าน JSON (key เก่าอย่าง deviceId/locale) */
+  text?: boolean;
+};
+
+export const defineKey = <T>(
+  name: string,
+  fallback: () => T,
+  validate: Check<T>,
+  opts: { text?: boolean } = {}
+): StorageKey<T> => ({ name, fallback, validate, ...opts });
+
+export const CORRUPT_SUFFIX = ".corrupt";
+
+export function createAppStorage(backing: Storage = localStorage) {
+  const watchers = new Map<string, Set<() => void>>();
+  let ready = false;
+
+  const ensureMigrated = () => {
+    if (ready) return;
+    ready = true;
+    migrate(backing);
+  };
+
+  /** เก็บค่าพังไว้ดูทีหลัง แล้วลบออกจาก key จริง */
+  const quarantine = (name: string, raw: string) => {
+    console.warn(`storage: "${name}" is corrupted, resetting`);
+    try {
+      backing.setItem(name + CORRUPT_SUFFIX, raw);
+    } catch {
+      // เต็ม → ช่างมัน ขอแค่เกมไปต่อได้
+    }
+    backing.removeItem(name);
+  };
+
+  const read = <T>(key: StorageKey<T>): T => {
+    ensureMigrated();
+    const raw = backing.getItem(key.name);
+    if (raw == null) return key.fallback();
+    let parsed: unknown = raw;
+    if (!key.text) {
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        quarantine(key.name, raw);
+        return key.fallback();
+      }
+    }
+    const value = key.validate(parsed);
+    if (value === undefined) {
+      quarantine(key.name, raw);
+      return key.fallback();
+    }
+    return value;
+  };
+
+  const write = <T>(key: StorageKey<T>, value: T) => {
+    ensureMigrated();
+    try {
+      backing.setItem(
+        key.name,
+        key.text ? String(value) : JSON.stringify(value)
+      );
+    } catch (e) {
+      // quota เต็ม / private mode — ค่าใน memory ยังใช้ได้ต่อ
+      console.warn(`storage: failed to write "${key.name}"`, e);
+    }
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", (e) => {
+      if (e.storageArea && e.storageArea !== backing) return;
+      // key = null → แท็บอื่นสั่ง clear() ทั้งหมด
+      const targets =
+        e.key == null
+          ? Array.from(watchers.values())
+          : [watchers.get(e.key)].filter((w): w is Set<() => void> => !!w);
+      targets.forEach((set) => set.forEach((l) => l()));
+    });
+  }
+
+  return {
+    read,
+    write,
+    /** อ่าน → แก้ → เขียน แล้วคืนค่าใหม่ */
+    update<T>(key: StorageKey<T>, fn: (prev: T) => T): T {
+      const next = fn(read(key));
+      write(key, next);
+      return next;
+    },
+    remove(key: StorageKey<unknown>) {
+      backing.removeItem(key.name);
+    },
+    /** แท็บอื่นเปลี่ยนค่า key นี้ → เรียก listener — คืนฟังก์ชันเลิกฟัง */
+    watch(key: StorageKey<unknown>, listener: () => void) {
+      const set = watchers.get(key.name) || new Set<() => void>();
+      watchers.set(key.name, set);
+      set.add(listener);
+      return () => {
+        set.delete(listener);
+      };
+    },
+    version() {
+      ensureMigrated();
+      return storedVersion(backing);
+    },
+  };
+}
+
+export type AppStorage = ReturnType<typeof createAppStorage>;
+
+export const appStorage = createAppStorage();
@@ -0,0 +1,108 @@
+/* ====== Schema version + migration ของ localStorage ======
+   เวอร์ชันเก็บใน "schemaVersion" (ไม่มี = 0 = layout ก่อนมี storage layer)
+   migration แต่ละขั้นเขียนด้วยชื่อ key ตรง ๆ — ห้าม import store (layout ตอนนั้นต้องไม่เปลี่ยนตาม)
+*/
+export const VERSION_KEY = "schemaVersion";
+
+type Migration = {
+  to: number;
+  description: string;
+  run: (s: Storage, now: number) => void;
+};
+
+const parse = (s: Storage, key: string): unknown => {
+  try {
+    return JSON.parse(s.getItem(key) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const isObj = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+/** รูปแบบเดียวกับ normalizeIG ตอนเขียน migration นี้ */
+const igKey = (raw: string) => {
+  const s = raw.trim().replace(/^@/, "").toLowerCase();
+  return s ? `@${s}` : "";
+};
+
+const mergeCounts = (obj: Record<string, unknown>) => {
+  const out: Record<string, number> = {};
+  for (const [ig, c] of Object.entries(obj)) {
+    const key = igKey(ig);
+    const n = Number(c);
+    if (key && Number.isFinite(n) && n > 0) out[key] = (out[key] || 0) + n;
+  }
+  return out;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    to: 1,
+    description:
+      "single-player keys (hamsterName/playerIG/onboarded) → profiles",
+    run(s, now) {
+      const legacy = ["hamsterName", "playerIG", "onboarded"];
+      const ig = igKey(s.getItem("playerIG") || "");
+      if (!s.getItem("profiles") && s.getItem("onboarded") === "1" && ig) {
+        const counts = parse(s, "localFeedCount");
+        const id = now.toString(36) + Math.random().toString(36).slice(2, 8);
+        const profile = {
+          id,
+          hamsterName: s.getItem("hamsterName") || "",
+          ig,
+          localFeeds: isObj(counts) ? mergeCounts(counts)[ig] || 0 : 0,
+          createdAt: now,
+        };
+        s.setItem(
+          "profiles",
+          JSON.stringify({ activeId: id, profiles: [profile] })
+        );
+      }
+      legacy.forEach((k) => s.removeItem(k));
+    },
+  },
+  {
+    to: 2,
+    description:
+      "merge localFeedCount/localFeedDaily rows that differ only by IG case",
+    run(s) {
+      const total = parse(s, "localFeedCount");
+      if (isObj(total)) {
+        s.setItem("localFeedCount", JSON.stringify(mergeCounts(total)));
+      }
+      const daily = parse(s, "localFeedDaily");
+      if (isObj(daily)) {
+        const out: Record<string, Record<string, number>> = {};
+        for (const [day, counts] of Object.entries(daily)) {
+          if (isObj(counts)) out[day] = mergeCounts(counts);
+        }
+        s.setItem("localFeedDaily", JSON.stringify(out));
+      }
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+export const storedVersion = (s: Storage) =>
+  Number(s.getItem(VERSION_KEY)) || 0;
+
+/** ไล่ migration จากเวอร์ชันที่เก็บไว้ถึงล่าสุด — คืนเวอร์ชันหลังรัน
+ *  เวอร์ชันใหม่กว่าที่แอปรู้จัก (แท็บเก่าเปิดค้าง) → ไม่แตะอะไร */
+export function migrate(s: Storage, now = Date.now()): number {
+  let version = storedVersion(s);
+  for (const m of MIGRATIONS) {
+    if (m.to <= version) continue;
+    try {
+      m.run(s, now);
+    } catch (e) {
+      // ข้อมูลเก่าแปลก ๆ ไม่ควรทำให้เกมเปิดไม่ได้ — ข้ามไปขั้นถัดไป
+      console.warn(`storage: migration to v${m.to} failed`, e);
+    }
+    version = m.to;
+    s.setItem(VERSION_KEY, String(version));
+  }
+  return version;
+}
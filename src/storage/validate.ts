@@ -0,0 +1,50 @@
+/* ====== ตัวช่วยตรวจรูปข้อมูลที่อ่านจาก storage ======
+   คืน undefined = ใช้ไม่ได้ทั้งก้อน; record/array ทิ้งเฉพาะตัวที่พัง
+*/
+export type Check<T> = (raw: unknown) => T | undefined;
+
+export const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+export const isFiniteNumber = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+
+export const str: Check<string> = (v) =>
+  typeof v === "string" ? v : undefined;
+
+export const num: Check<number> = (v) => (isFiniteNumber(v) ? v : undefined);
+
+export const recordOf =
+  <T>(check: Check<T>): Check<Record<string, T>> =>
+  (raw) => {
+    if (!isObject(raw)) return undefined;
+    const out: Record<string, T> = {};
+    for (const [k, v] of Object.entries(raw)) {
+      const ok = check(v);
+      if (ok !== undefined) out[k] = ok;
+    }
+    return out;
+  };
+
+export const arrayOf =
+  <T>(check: Check<T>): Check<T[]> =>
+  (raw) => {
+    if (!Array.isArray(raw)) return undefined;
+    const out: T[] = [];
+    for (const v of raw) {
+      const ok = check(v);
+      if (ok !== undefined) out.push(ok);
+    }
+    return out;
+  };
+
+/** object ที่ต้องมี field ตามชนิดที่กำหนด (field อื่นเก็บไว้ตามเดิม) */
+export const shape =
+  <T>(fields: Record<string, (v: unknown) => boolean>): Check<T> =>
+  (raw) => {
+    if (!isObject(raw)) return undefined;
+    for (const [k, ok] of Object.entries(fields)) {
+      if (!ok(raw[k])) return undefined;
+    }
+    return raw as T;
+  };
@@ -0,0 +1,22 @@
+/* ====== รหัสทีม ======
+   6 ตัว A–Z/2–9 (ตัด 0/O/1/I ที่อ่านสับสน) — พิมพ์เล็ก/มีขีด/ช่องว่างก็ได้
+*/
+const ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const TEAM_CODE_LENGTH = 6;
+export const TEAM_NAME_MAX = 24;
+
+export const normalizeTeamCode = (code: string) =>
+  code.toUpperCase().replace(/[\s-]/g, "");
+
+export const isTeamCodeValid = (code: string) =>
+  new RegExp(`^[${ALPHABET}]{${TEAM_CODE_LENGTH}}$`).test(
+    normalizeTeamCode(code)
+  );
+
+export const isTeamNameValid = (name: string) =>
+  name.trim().length > 0 && name.trim().length <= TEAM_NAME_MAX;
+
+export function newTeamCode() {
+  const bytes = crypto.getRandomValues(new Uint8Array(TEAM_CODE_LENGTH));
+  return Array.from(bytes, (b) => ALPHABET[b % ALPHABET.length]).join("");
+}
@@ -0,0 +1,36 @@
+import type { ProfileTeam } from "../profiles/store";
+import {
+  isTeamCodeValid,
+  isTeamNameValid,
+  newTeamCode,
+  normalizeTeamCode,
+} from "./code";
+
+/* ====== ช่องทีมในฟอร์ม onboarding ======
+   join = พิมพ์รหัสที่เพื่อนให้มา (ว่าง = เล่นเดี่ยว), create = ตั้งชื่อทีมใหม่
+*/
+export type TeamDraft = {
+  mode: "join" | "create";
+  code: string;
+  /** join: ชื่อที่หาเจอจาก backend, create: ชื่อที่พิมพ์ */
+  name: string;
+};
+
+export const draftFor = (team?: ProfileTeam | null): TeamDraft => ({
+  mode: "join",
+  code: team?.code || "",
+  name: team?.name || "",
+});
+
+export const isDraftValid = (d: TeamDraft) =>
+  d.mode === "create"
+    ? isTeamNameValid(d.name)
+    : !d.code.trim() || isTeamCodeValid(d.code);
+
+/** ทีมที่จะเก็บใน profile — null = ไม่มีทีม; สร้างทีม = ออกรหัสใหม่ */
+export function teamFromDraft(d: TeamDraft): ProfileTeam | null {
+  if (!isDraftValid(d)) return null;
+  if (d.mode === "create") return { code: newTeamCode(), name: d.name.trim() };
+  const code = normalizeTeamCode(d.code);
+  return code ? { code, name: d.name || code } : null;
+}
@@ -0,0 +1,109 @@
+import { appStorage, defineKey, type AppStorage } from "../storage";
+import type { ThemeColors } from "./tokens";
+
+export * from "./tokens";
+
+/* ====== Theme: สีทั้งหมดเป็น CSS custom property (ดู index.css) ======
+   store ตั้ง <html data-theme="..."> → CSS สลับชุดสีเอง component ไม่ต้องรู้
+   อีเวนต์ทับ token บางตัวได้ (setOverrides) โดยไม่ต้องแก้ component
+*/
+export const THEMES = ["light", "dark", "halloween", "winter"] as const;
+export type ThemeId = (typeof THEMES)[number];
+/** system = ตาม prefers-color-scheme ของเครื่อง */
+export type ThemeChoice = "system" | ThemeId;
+
+export const THEME_CHOICES: ThemeChoice[] = ["system", ...THEMES];
+
+/** สีแถบเบราว์เซอร์/PWA ต่อธีม (<meta name="theme-color">) */
+const META_COLORS: Record<ThemeId, string> = {
+  light: "#ffd27a",
+  dark: "#12121e",
+  halloween: "#2a0f3a",
+  winter: "#0e2a4a",
+};
+
+const isChoice = (v: unknown): v is ThemeChoice =>
+  typeof v === "string" && (THEME_CHOICES as string[]).includes(v);
+
+export const THEME_KEY = defineKey<ThemeChoice>(
+  "theme",
+  () => "system",
+  (v) => (isChoice(v) ? v : undefined)
+);
+
+export const resolveTheme = (choice: ThemeChoice, prefersDark: boolean) =>
+  choice === "system" ? (prefersDark ? "dark" : "light") : choice;
+
+export type ThemeState = { choice: ThemeChoice; theme: ThemeId };
+
+export function createThemeStore(
+  storage: AppStorage = appStorage,
+  root: HTMLElement = document.documentElement,
+  media: MediaQueryList | undefined = window.matchMedia?.(
+    "(prefers-color-scheme: dark)"
+  )
+) {
+  const listeners = new Set<() => void>();
+  let overrides: ThemeColors = {};
+
+  const compute = (choice: ThemeChoice): ThemeState => ({
+    choice,
+    theme: resolveTheme(choice, !!media?.matches),
+  });
+  let state = compute(storage.read(THEME_KEY));
+
+  const apply = (next: ThemeState) => {
+    state = next;
+    root.dataset.theme = next.theme;
+    document
+      .querySelector('meta[name="theme-color"]')
+      ?.setAttribute("content", META_COLORS[next.theme]);
+    listeners.forEach((l) => l());
+  };
+  apply(state);
+
+  return {
+    getState: () => state,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setChoice(choice: ThemeChoice) {
+      if (!isChoice(choice) || choice === state.choice) return;
+      storage.write(THEME_KEY, choice);
+      apply(compute(choice));
+    },
+    /** สีของอีเวนต์ทับธีม (null = เอาออก) */
+    setOverrides(colors: ThemeColors | null | undefined) {
+      for (const token of Object.keys(overrides)) {
+        root.style.removeProperty(`--${token}`);
+      }
+      overrides = colors || {};
+      for (const [token, value] of Object.entries(overrides)) {
+        root.style.setProperty(`--${token}`, value);
+      }
+    },
+    /** แท็บอื่นเปลี่ยนธีม / เครื่องสลับโหมดมืด — คืนฟังก์ชันเลิกฟัง */
+    watch() {
+      const onScheme = () => {
+        const next = compute(state.choice);
+        if (next.theme !== state.theme) apply(next);
+      };
+      media?.addEventListener?.("change", onScheme);
+      const stop = storage.watch(THEME_KEY, () => {
+        const saved = storage.read(THEME_KEY);
+        if (saved !== state.choice) apply(compute(saved));
+      });
+      return () => {
+        media?.removeEventListener?.("change", onScheme);
+        stop();
+      };
+    },
+  };
+}
+
+export type ThemeStore = ReturnType<typeof createThemeStore>;
+
+export const themeStore = createThemeStore();
@@ -0,0 +1,41 @@
+/* ====== token สีที่เปลี่ยนได้จากข้างนอก (อีเวนต์) — ไม่แตะ DOM ====== */
+/** token ที่อีเวนต์เปลี่ยนได้ (ชื่อไม่มี -- ข้างหน้า) */
+export const THEME_TOKENS = [
+  "accent",
+  "accent-border",
+  "accent-text",
+  "hud-bg",
+  "hud-bg-strong",
+  "hud-border",
+  "hud-text",
+  "warn",
+  "warn-bg",
+  "yes-1",
+  "yes-2",
+  "yes-border",
+  "no-1",
+  "no-2",
+  "no-border",
+  "btn-1",
+  "btn-2",
+  "btn-border",
+  "bg-overlay-1",
+  "bg-overlay-2",
+] as const;
+export type ThemeToken = (typeof THEME_TOKENS)[number];
+export type ThemeColors = Partial<Record<ThemeToken, string>>;
+
+/** ค่าสีที่ใส่ใน style ได้ (กัน ; { } หลุดไปเป็น CSS อื่น) */
+const isColorValue = (v: unknown): v is string =>
+  typeof v === "string" && v.length <= 200 && !/[;{}<>]/.test(v);
+
+/** `{ token: value }` จาก JSON — token ที่ไม่รู้จักหรือค่าแปลก ๆ = undefined */
+export function parseThemeColors(raw: unknown): ThemeColors | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return;
+  const entries = Object.entries(raw);
+  const ok = entries.every(
+    ([k, v]) =>
+      (THEME_TOKENS as readonly string[]).includes(k) && isColorValue(v)
+  );
+  return ok ? (Object.fromEntries(entries) as ThemeColors) : undefined;
+}
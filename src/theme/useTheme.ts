@@ -0,0 +1,13 @@
+import { useEffect, useSyncExternalStore } from "react";
+
+import { themeStore } from ".";
+
+/* ====== Hook: ธีมที่เลือก + ธีมที่ใช้จริง (render ใหม่เมื่อสลับ) ====== */
+export function useTheme() {
+  const state = useSyncExternalStore(themeStore.subscribe, themeStore.getState);
+
+  // sync ข้ามแท็บ + ตามโหมดมืดของเครื่อง
+  useEffect(() => themeStore.watch(), []);
+
+  return { ...state, setChoice: themeStore.setChoice };
+}
@@ -0,0 +1,201 @@
+import {
+  achievements,
+  checkRecord,
+  type AchievementRecord,
+} from "../achievements/tracker";
+import { BADGES } from "../achievements/catalog";
+import { hmacHex } from "../anticheat/sign";
+import { isIGValid, normalizeIG } from "../lib/ig";
+import {
+  feedHistory,
+  mergeFeedHistory,
+  type FeedHistory,
+} from "../profiles/feedCounts";
+import { profileStore, type Profile } from "../profiles/store";
+import { isObject, num, recordOf } from "../storage";
+
+/* ====== Backup ข้อมูลผู้เล่น (ย้ายเครื่อง / ล้างข้อมูลเบราว์เซอร์ใน IG) ======
+   JSON เดียวต่อ profile: ชื่อ/IG + ประวัติ feed รายวัน + achievements + checksum
+   checksum กันไฟล์เสีย/ก๊อปไม่ครบ เท่านั้น — salt อยู่ในโค้ด client ใครก็คำนวณใหม่ได้
+   → ไม่ใช่หลักฐานความเป็นเจ้าของ ข้อมูลใน backup ต้องตรวจเองก่อน merge (เช่น badge ที่มีจริง)
+*/
+export const BACKUP_KIND = "hamham-backup";
+export const BACKUP_VERSION = 1;
+const BACKUP_CHECKSUM_SALT =
+  "6a7d1c0e5b2f48e39a0c7d4b1f6e2a8c5d3b9e7f1a4c6e8b0d2f4a6c8e0b2d4f";
+
+export type PlayerBackup = {
+  kind: typeof BACKUP_KIND;
+  v: number;
+  exportedAt: number;
+  profile: { hamsterName: string; ig: string; createdAt: number };
+  feeds: FeedHistory;
+  achievements: AchievementRecord;
+  /** checksum (ชื่อ field เดิมของไฟล์ v1) */
+  sig: string;
+};
+
+export type BackupErrorCode = "format" | "version" | "checksum";
+
+export class BackupError extends Error {
+  constructor(
+    readonly code: BackupErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+/** JSON ที่เรียง key เสมอ — แก้ช่องว่าง/ลำดับ key ในไฟล์แล้ว checksum ยังตรง */
+function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(",")}]`;
+  if (isObject(v)) {
+    return `{${Object.keys(v)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(v[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(v);
+}
+
+const checksumOf = (b: Omit<PlayerBackup, "sig">) =>
+  hmacHex(BACKUP_CHECKSUM_SALT, stableStringify(b));
+
+export async function createBackup(
+  profile: Profile,
+  now = Date.now()
+): Promise<PlayerBackup> {
+  const body: Omit<PlayerBackup, "sig"> = {
+    kind: BACKUP_KIND,
+    v: BACKUP_VERSION,
+    exportedAt: now,
+    profile: {
+      hamsterName: profile.hamsterName,
+      ig: profile.ig,
+      createdAt: profile.createdAt,
+    },
+    feeds: feedHistory(profile.ig),
+    achievements: achievements.get(profile.id),
+  };
+  return { ...body, sig: await checksumOf(body) };
+}
+
+/** เก็บแค่ N วันล่าสุด (ไว้ย่อให้พอใส่ QR) — ยอดรวมยังอยู่ครบ */
+export async function trimBackup(
+  b: PlayerBackup,
+  days: number
+): Promise<PlayerBackup> {
+  const keep = Object.keys(b.feeds.daily).sort().slice(-days);
+  const body: Omit<PlayerBackup, "sig"> = {
+    kind: b.kind,
+    v: b.v,
+    exportedAt: b.exportedAt,
+    profile: b.profile,
+    feeds: {
+      total: b.feeds.total,
+      daily: Object.fromEntries(keep.map((d) => [d, b.feeds.daily[d]])),
+    },
+    achievements: {
+      ...b.achievements,
+      stats: {
+        ...b.achievements.stats,
+        feedDays: b.achievements.stats.feedDays.slice(-days),
+      },
+    },
+  };
+  return { ...body, sig: await checksumOf(body) };
+}
+
+/** ตรวจ JSON จากไฟล์/QR — ผิดรูป/เวอร์ชันใหม่กว่า/checksum ไม่ตรง = throw BackupError */
+export async function parseBackup(text: string): Promise<PlayerBackup> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError("format", "not JSON");
+  }
+  if (!isObject(raw) || raw.kind !== BACKUP_KIND) {
+    throw new BackupError("format", "not a hamster backup");
+  }
+  if (typeof raw.v !== "number" || raw.v > BACKUP_VERSION) {
+    throw new BackupError("version", `unsupported backup version ${raw.v}`);
+  }
+  const p = raw.profile;
+  const feeds = isObject(raw.feeds) ? raw.feeds : null;
+  const daily = recordOf(num)(feeds?.daily);
+  const record = checkRecord(raw.achievements);
+  if (
+    !isObject(p) ||
+    typeof p.hamsterName !== "string" ||
+    typeof p.ig !== "string" ||
+    !isIGValid(p.ig) ||
+    typeof feeds?.total !== "number" ||
+    !daily ||
+    !record ||
+    typeof raw.sig !== "string"
+  ) {
+    throw new BackupError("format", "missing fields");
+  }
+  const { sig, ...body } = raw;
+  if ((await checksumOf(body as Omit<PlayerBackup, "sig">)) !== sig) {
+    throw new BackupError("checksum", "checksum mismatch");
+  }
+  return raw as PlayerBackup;
+}
+
+/** badge ใน backup ที่มีอยู่ในเกมจริง — id แปลก ๆ จากไฟล์ที่แก้มือทิ้งไป */
+const knownUnlocked = (unlocked: Record<string, number>) =>
+  Object.fromEntries(
+    BADGES.filter((badge) => Number.isFinite(unlocked[badge.id])).map(
+      (badge) => [badge.id, unlocked[badge.id]]
+    )
+  );
+
+export type BackupPreview = {
+  /** ยังไม่มี profile ของ IG นี้ในเครื่อง → สร้างใหม่ */
+  isNew: boolean;
+  feedsBefore: number;
+  feedsAfter: number;
+  newBadges: string[];
+};
+
+/** ผลที่จะได้ถ้า import (ยังไม่เขียนอะไร) */
+export function previewBackup(b: PlayerBackup): BackupPreview {
+  const ig = normalizeIG(b.profile.ig);
+  const existing = profileStore.getState().profiles.find((p) => p.ig === ig);
+  const local = feedHistory(ig);
+  const days = new Set([
+    ...Object.keys(local.daily),
+    ...Object.keys(b.feeds.daily),
+  ]);
+  let daySum = 0;
+  for (const d of days)
+    daySum += Math.max(local.daily[d] || 0, b.feeds.daily[d] || 0);
+  const owned = existing ? achievements.get(existing.id).unlocked : {};
+  return {
+    isNew: !existing,
+    feedsBefore: Math.max(local.total, existing?.localFeeds ?? 0),
+    feedsAfter: Math.max(local.total, b.feeds.total, daySum),
+    newBadges: Object.keys(knownUnlocked(b.achievements.unlocked)).filter(
+      (id) => !owned[id]
+    ),
+  };
+}
+
+/** รวม backup เข้ากับข้อมูลในเครื่อง แล้วสลับไปใช้ profile นั้น — คืน profile */
+export function applyBackup(b: PlayerBackup): Profile {
+  const ig = normalizeIG(b.profile.ig);
+  let profile =
+    profileStore.getState().profiles.find((p) => p.ig === ig) ||
+    profileStore.add(b.profile.hamsterName, ig);
+  const merged = mergeFeedHistory(ig, b.feeds);
+  profileStore.raiseLocalFeeds(profile.id, merged.total);
+  achievements.mergeRecord(profile.id, {
+    ...b.achievements,
+    unlocked: knownUnlocked(b.achievements.unlocked),
+  });
+  profileStore.setActive(profile.id);
+  profile = profileStore.active() || profile;
+  return profile;
+}
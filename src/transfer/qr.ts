@@ -0,0 +1,55 @@
+import QRCode from "qrcode";
+
+import { parseBackup, trimBackup, type PlayerBackup } from "./backup";
+
+/* ====== ย้ายเครื่องด้วย QR: สแกนด้วยกล้องมือถืออีกเครื่อง → เปิดเกมพร้อมหน้า import ======
+   QR = ลิงก์เกม + "#import=<backup แบบ base64url>"
+*/
+export const IMPORT_HASH = "import";
+
+/** QR โหมด L ใส่ได้ราว 2.9 KB — เกินนี้ให้ใช้ไฟล์แทน */
+const MAX_QR_CHARS = 2800;
+/** ลดประวัติรายวันทีละขั้นจนพอใส่ QR */
+const TRIM_STEPS = [365, 90, 30, 7];
+
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (b64: string) => {
+  const bin = atob(b64.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+};
+
+export const importUrl = (b: PlayerBackup, base = window.location) =>
+  `${base.origin}${base.pathname}#${IMPORT_HASH}=${toBase64Url(
+    JSON.stringify(b)
+  )}`;
+
+/** data URL ของรูป QR — null = ข้อมูลใหญ่เกิน QR แม้ตัดประวัติแล้ว */
+export async function backupQr(b: PlayerBackup): Promise<string | null> {
+  let url = importUrl(b);
+  for (const days of TRIM_STEPS) {
+    if (url.length <= MAX_QR_CHARS) break;
+    url = importUrl(await trimBackup(b, days));
+  }
+  if (url.length > MAX_QR_CHARS) return null;
+  return QRCode.toDataURL(url, { errorCorrectionLevel: "L", margin: 2 });
+}
+
+/** backup ที่ติดมากับลิงก์ (#import=...) — ไม่มี = null */
+export function backupTextFromHash(hash = window.location.hash) {
+  const m = hash.match(new RegExp(`[#&]${IMPORT_HASH}=([\\w-]+)`));
+  if (!m) return null;
+  try {
+    return fromBase64Url(m[1]);
+  } catch {
+    return null;
+  }
+}
+
+/** ข้อความที่ผู้เล่นวาง: JSON ตรง ๆ หรือลิงก์จาก QR ก็ได้ */
+export const parseBackupInput = (input: string) =>
+  parseBackup(backupTextFromHash(input.trim()) ?? input.trim());
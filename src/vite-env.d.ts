@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** "appsscript" | "rest" | "local" */
+  readonly VITE_LEADERBOARD_BACKEND?: string;
+  readonly VITE_LEADERBOARD_URL?: string;
+  /** id ของเรื่องใน src/scenario/stories */
+  readonly VITE_SCENARIO?: string;
+  /** แท็บ leaderboard แคมเปญ (ISO date) */
+  readonly VITE_CAMPAIGN_NAME?: string;
+  readonly VITE_CAMPAIGN_START?: string;
+  readonly VITE_CAMPAIGN_END?: string;
+  /** ตารางอีเวนต์จำกัดเวลา (default = /events.json) */
+  readonly VITE_EVENTS_URL?: string;
+}
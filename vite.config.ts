@@ -1,9 +1,49 @@
-import { defineConfig } from "vite";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+/** บรรทัดใน public/sw.js ที่ถูกแทนตอน build */
+const SW_BUILD_LINE = /^const BUILD = .*;$/m;
+
+/** เขียน sw.js ใหม่ตอน build: ฝังรายชื่อไฟล์ที่ต้อง precache + version จาก hash ของ bundle
+ *  → deploy ใหม่ = cache ชื่อใหม่ ตัวเก่าถูกลบตอน activate (ไม่ค้าง index.html เก่า) */
+function serviceWorker(): Plugin {
+  return {
+    name: "service-worker",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((f) => !/\.map$/.test(f))
+        .sort();
+      const source = readFileSync("public/sw.js", "utf8");
+      const hash = createHash("sha256").update(source);
+      for (const f of files) {
+        const out = bundle[f];
+        hash.update(f).update(out.type === "chunk" ? out.code : out.source);
+      }
+      const build = {
+        version: hash.digest("hex").slice(0, 12),
+        files: files.map((f) => `/${f}`),
+      };
+      if (!SW_BUILD_LINE.test(source)) {
+        this.error("public/sw.js: missing `const BUILD = …;` line");
+      }
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: source.replace(
+          SW_BUILD_LINE,
+          () => `const BUILD = ${JSON.stringify(build)};`
+        ),
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   server: {
     port: 5173, // หรือพอร์ตอื่นก็ได้
     proxy: {